@@ -8,22 +8,33 @@ import {
   LatestInvoicesSkeleton,
    CardsSkeleton,
 } from '@/app/ui/skeletons';
+import { getRevenueChartOptions } from '@/app/lib/utils';
  
-export default async function Page() {
+export default async function Page(props: {
+  searchParams?: Promise<{
+    range?: string;
+    granularity?: string;
+    from?: string;
+    to?: string;
+    compare?: string;
+  }>;
+}) {
+  const searchParams = await props.searchParams;
+  const revenueOptions = getRevenueChartOptions(searchParams);
 
   return (
     <main>
       <h1 className={`${lusitana.className} mb-4 text-xl md:text-2xl`}>
         Dashboard
       </h1>
-      <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-4">
+      <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-5">
         <Suspense fallback={<CardsSkeleton />}>
           <CardWrapper />
         </Suspense>
       </div>
       <div className="mt-6 grid grid-cols-1 gap-6 md:grid-cols-4 lg:grid-cols-8">
         <Suspense fallback={<RevenueChartSkeleton />}>
-          <RevenueChart />
+          <RevenueChart options={revenueOptions} />
         </Suspense>
         
           <Suspense fallback={<LatestInvoicesSkeleton />}>
@@ -0,0 +1,56 @@
+import ChangePasswordForm from '@/app/ui/account/change-password-form';
+import DisableTwoFactorForm from '@/app/ui/account/disable-two-factor-form';
+import { lusitana } from '@/app/ui/fonts';
+import { fetchTwoFactorStatus } from '@/app/lib/data';
+import { getActor } from '@/app/lib/session';
+import { formatDateToLocal } from '@/app/lib/utils';
+import { ShieldCheckIcon } from '@heroicons/react/24/outline';
+import { Metadata } from 'next';
+import Link from 'next/link';
+
+export const metadata: Metadata = {
+  title: 'Account | Blue Dashboard',
+};
+
+export default async function Page() {
+  const { id, email, role } = await getActor();
+  const twoFactor = await fetchTwoFactorStatus(id!);
+
+  return (
+    <main>
+      <h1 className={`${lusitana.className} mb-2 text-2xl`}>Account</h1>
+      <p className="mb-6 text-sm text-gray-500">
+        Signed in as {email}
+        {role && <span className="capitalize"> ({role})</span>}
+      </p>
+      <h2 className="mb-4 text-lg font-medium">Change password</h2>
+      <ChangePasswordForm />
+
+      <h2 className="mb-4 mt-10 text-lg font-medium">Two-factor sign-in</h2>
+      {twoFactor?.enabled_at ? (
+        <>
+          <p className="mb-4 flex items-center gap-2 text-sm text-gray-500">
+            <ShieldCheckIcon className="h-5 w-5 text-green-600" />
+            On since {formatDateToLocal(twoFactor.enabled_at)}, with{' '}
+            {twoFactor.recovery_codes_left} unused recovery code
+            {twoFactor.recovery_codes_left === 1 ? '' : 's'}.
+          </p>
+          <DisableTwoFactorForm />
+        </>
+      ) : (
+        <div className="flex flex-col gap-4 rounded-md bg-gray-50 p-4 md:flex-row md:items-center md:justify-between md:p-6">
+          <p className="text-sm text-gray-500">
+            Ask for a code from an authenticator app as well as your password
+            when you log in.
+          </p>
+          <Link
+            href="/dashboard/account/two-factor"
+            className="flex h-10 shrink-0 items-center rounded-lg bg-blue-500 px-4 text-sm font-medium text-white transition-colors hover:bg-blue-400"
+          >
+            Set Up
+          </Link>
+        </div>
+      )}
+    </main>
+  );
+}
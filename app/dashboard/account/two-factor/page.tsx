@@ -0,0 +1,64 @@
+import EnableTwoFactorForm from '@/app/ui/account/enable-two-factor-form';
+import Breadcrumbs from '@/app/ui/invoices/breadcrumbs';
+import { fetchTwoFactorStatus } from '@/app/lib/data';
+import { getActor } from '@/app/lib/session';
+import { generateTotpSecret, totpUri } from '@/app/lib/totp';
+import { Metadata } from 'next';
+import Image from 'next/image';
+import { redirect } from 'next/navigation';
+import QRCode from 'qrcode';
+
+export const metadata: Metadata = {
+  title: 'Two-Factor Sign-In | Blue Dashboard',
+};
+
+// A new secret is made for each visit. Nothing is stored until a code from
+// it is confirmed, so leaving the page part way through changes nothing.
+export default async function Page() {
+  const { id, email } = await getActor();
+  const status = await fetchTwoFactorStatus(id!);
+  if (status?.enabled_at) redirect('/dashboard/account');
+
+  const secret = generateTotpSecret();
+  const qrCode = await QRCode.toDataURL(
+    totpUri(secret, email!, 'Blue Dashboard'),
+    { margin: 1, width: 192 },
+  );
+
+  return (
+    <main>
+      <Breadcrumbs
+        breadcrumbs={[
+          { label: 'Account', href: '/dashboard/account' },
+          {
+            label: 'Two-Factor Sign-In',
+            href: '/dashboard/account/two-factor',
+            active: true,
+          },
+        ]}
+      />
+      <div className="mb-6 flex flex-col gap-6 rounded-md bg-gray-50 p-4 md:flex-row md:items-center md:p-6">
+        <Image
+          src={qrCode}
+          alt="QR code for your authenticator app"
+          width={192}
+          height={192}
+          className="rounded-md bg-white"
+        />
+        <div className="text-sm">
+          <p className="mb-2">
+            Scan the QR code with an authenticator app, such as Google
+            Authenticator or 1Password.
+          </p>
+          <p className="mb-2 text-gray-500">
+            If you can&apos;t scan it, enter this key instead:
+          </p>
+          <p className="break-all font-mono">
+            {secret.match(/.{4}/g)?.join(' ')}
+          </p>
+        </div>
+      </div>
+      <EnableTwoFactorForm secret={secret} />
+    </main>
+  );
+}
@@ -0,0 +1,47 @@
+import Pagination from '@/app/ui/invoices/pagination';
+import Filters from '@/app/ui/audit/filters';
+import Table from '@/app/ui/audit/table';
+import { lusitana } from '@/app/ui/fonts';
+import { AuditLogSkeleton } from '@/app/ui/skeletons';
+import { Suspense } from 'react';
+import { fetchAuditLogPages } from '@/app/lib/data';
+import { getAuditLogFilters } from '@/app/lib/utils';
+import { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: 'Audit Log | Blue Dashboard',
+};
+
+export default async function Page(props: {
+  searchParams?: Promise<{
+    page?: string;
+    entity?: string;
+    action?: string;
+    user?: string;
+    from?: string;
+    to?: string;
+  }>;
+}) {
+  const searchParams = await props.searchParams;
+  const filters = getAuditLogFilters(searchParams);
+  const currentPage = Number(searchParams?.page) || 1;
+  const totalPages = await fetchAuditLogPages(filters);
+
+  return (
+    <div className="w-full">
+      <div className="flex w-full items-center justify-between">
+        <h1 className={`${lusitana.className} text-2xl`}>Audit Log</h1>
+      </div>
+      <Filters />
+      <Suspense
+        key={JSON.stringify(filters) + currentPage}
+        fallback={<AuditLogSkeleton />}
+      >
+        <Table filters={filters} currentPage={currentPage} />
+      </Suspense>
+      <div className="mt-5 flex w-full justify-center">
+        <Pagination totalPages={totalPages} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import Image from 'next/image';
+import Breadcrumbs from '@/app/ui/invoices/breadcrumbs';
+import Pagination from '@/app/ui/invoices/pagination';
+import Filters from '@/app/ui/invoices/filters';
+import CustomerCards from '@/app/ui/customers/cards';
+import MonthlyTotals from '@/app/ui/customers/monthly-totals';
+import Table from '@/app/ui/customers/invoices-table';
+import { UpdateCustomer } from '@/app/ui/customers/buttons';
+import { lusitana } from '@/app/ui/fonts';
+import {
+  CardsSkeleton,
+  InvoicesTableSkeleton,
+  RevenueChartSkeleton,
+} from '@/app/ui/skeletons';
+import { Suspense } from 'react';
+import {
+  fetchCustomerById,
+  fetchInvoicesPagesByCustomer,
+} from '@/app/lib/data';
+import { getInvoiceFilters } from '@/app/lib/utils';
+import { notFound } from 'next/navigation';
+
+export default async function Page(props: {
+  params: Promise<{ id: string }>;
+  searchParams?: Promise<{
+    page?: string;
+    status?: string;
+    from?: string;
+    to?: string;
+    minAmount?: string;
+    maxAmount?: string;
+  }>;
+}) {
+  const params = await props.params;
+  const searchParams = await props.searchParams;
+  const id = params.id;
+  // The same filters as the invoices list. Every invoice here is this
+  // customer's, so there is no customer to search for.
+  const filters = getInvoiceFilters({ ...searchParams, query: undefined });
+  const currentPage = Number(searchParams?.page) || 1;
+  const [customer, totalPages] = await Promise.all([
+    fetchCustomerById(id),
+    fetchInvoicesPagesByCustomer(id, filters),
+  ]);
+
+  if (!customer) {
+    notFound();
+  }
+
+  return (
+    <main>
+      <Breadcrumbs
+        breadcrumbs={[
+          { label: 'Customers', href: '/dashboard/customers' },
+          {
+            label: customer.name,
+            href: `/dashboard/customers/${id}`,
+            active: true,
+          },
+        ]}
+      />
+      <div className="mb-6 flex items-center justify-between rounded-xl bg-gray-50 p-4">
+        <div className="flex items-center gap-4">
+          <Image
+            src={customer.image_url}
+            className="rounded-full"
+            alt={`${customer.name}'s profile picture`}
+            width={56}
+            height={56}
+          />
+          <div>
+            <p className="text-lg font-semibold">{customer.name}</p>
+            <p className="text-sm text-gray-500">{customer.email}</p>
+          </div>
+        </div>
+        <UpdateCustomer id={customer.id} />
+      </div>
+      <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-5">
+        <Suspense fallback={<CardsSkeleton />}>
+          <CustomerCards customerId={id} />
+        </Suspense>
+      </div>
+      <div className="mt-6 grid grid-cols-1 gap-6 md:grid-cols-4 lg:grid-cols-8">
+        <Suspense fallback={<RevenueChartSkeleton />}>
+          <MonthlyTotals customerId={id} />
+        </Suspense>
+      </div>
+      <h2 className={`${lusitana.className} mt-8 text-xl md:text-2xl`}>
+        Invoices
+      </h2>
+      <Filters />
+      <Suspense
+        key={JSON.stringify(filters) + currentPage}
+        fallback={<InvoicesTableSkeleton />}
+      >
+        <Table customerId={id} filters={filters} currentPage={currentPage} />
+      </Suspense>
+      <div className="mt-5 flex w-full justify-center">
+        <Pagination totalPages={totalPages} />
+      </div>
+    </main>
+  );
+}
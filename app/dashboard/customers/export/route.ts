@@ -0,0 +1,35 @@
+import { streamFilteredCustomers } from '@/app/lib/data';
+import { csvFilename, toCsvStream } from '@/app/lib/csv';
+import { BASE_CURRENCY } from '@/app/lib/utils';
+
+// Downloads every customer matching the table's current ?query= as CSV
+export async function GET(request: Request) {
+  const query = new URL(request.url).searchParams.get('query') || '';
+
+  const csv = toCsvStream(
+    [
+      'id',
+      'name',
+      'email',
+      'total_invoices',
+      `total_pending_${BASE_CURRENCY.toLowerCase()}`,
+      `total_paid_${BASE_CURRENCY.toLowerCase()}`,
+    ],
+    streamFilteredCustomers(query),
+    (customer) => [
+      customer.id,
+      customer.name,
+      customer.email,
+      Number(customer.total_invoices),
+      (Number(customer.total_pending) / 100).toFixed(2),
+      (Number(customer.total_paid) / 100).toFixed(2),
+    ],
+  );
+
+  return new Response(csv, {
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${csvFilename('customers')}"`,
+    },
+  });
+}
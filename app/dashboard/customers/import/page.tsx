@@ -0,0 +1,20 @@
+import ImportForm from '@/app/ui/import-form';
+import Breadcrumbs from '@/app/ui/invoices/breadcrumbs';
+
+export default function Page() {
+  return (
+    <main>
+      <Breadcrumbs
+        breadcrumbs={[
+          { label: 'Customers', href: '/dashboard/customers' },
+          {
+            label: 'Import Customers',
+            href: '/dashboard/customers/import',
+            active: true,
+          },
+        ]}
+      />
+      <ImportForm type="customers" columns={['name', 'email', 'image_url']} />
+    </main>
+  );
+}
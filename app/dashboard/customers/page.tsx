@@ -1,8 +1,61 @@
+import Pagination from '@/app/ui/invoices/pagination';
+import Search from '@/app/ui/search';
+import Table from '@/app/ui/customers/table';
+import {
+  CreateCustomer,
+  ExportCustomers,
+  ImportCustomers,
+} from '@/app/ui/customers/buttons';
+import { lusitana } from '@/app/ui/fonts';
+import { CustomersTableSkeleton } from '@/app/ui/skeletons';
+import { Suspense } from 'react';
+import { fetchCustomersPages } from '@/app/lib/data';
+import { customersSortColumns, getSort } from '@/app/lib/utils';
 import { Metadata } from 'next';
+
 export const metadata: Metadata = {
   title: 'Customers | Blue Dashboard',
 };
 
-export default function Page() {
-  return <p>customer Page</p>;
-}
\ No newline at end of file
+export default async function Page(props: {
+  searchParams?: Promise<{
+    query?: string;
+    page?: string;
+    sort?: string;
+    dir?: string;
+  }>;
+}) {
+  const searchParams = await props.searchParams;
+  const query = searchParams?.query || '';
+  // Search results are ranked by relevance unless another sort is picked
+  const sort = getSort(
+    searchParams,
+    customersSortColumns,
+    query ? { column: 'relevance', dir: 'desc' } : { column: 'name', dir: 'asc' },
+  );
+  const currentPage = Number(searchParams?.page) || 1;
+  const totalPages = await fetchCustomersPages(query);
+
+  return (
+    <div className="w-full">
+      <div className="flex w-full items-center justify-between">
+        <h1 className={`${lusitana.className} text-2xl`}>Customers</h1>
+      </div>
+      <div className="mt-4 flex items-center justify-between gap-2 md:mt-8">
+        <Search placeholder="Search customers..." />
+        <ImportCustomers />
+        <ExportCustomers query={query} />
+        <CreateCustomer />
+      </div>
+      <Suspense
+        key={query + sort.column + sort.dir + currentPage}
+        fallback={<CustomersTableSkeleton />}
+      >
+        <Table query={query} currentPage={currentPage} sort={sort} />
+      </Suspense>
+      <div className="mt-5 flex w-full justify-center">
+        <Pagination totalPages={totalPages} />
+      </div>
+    </div>
+  );
+}
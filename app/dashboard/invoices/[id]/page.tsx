@@ -0,0 +1,39 @@
+import Breadcrumbs from '@/app/ui/invoices/breadcrumbs';
+import InvoiceDocument from '@/app/ui/invoices/invoice-document';
+import PrintButton from '@/app/ui/invoices/print-button';
+import { DownloadInvoice, UpdateInvoice } from '@/app/ui/invoices/buttons';
+import { fetchInvoiceDocument } from '@/app/lib/data';
+import { notFound } from 'next/navigation';
+
+export default async function Page(props: { params: Promise<{ id: string }> }) {
+  const params = await props.params;
+  const id = params.id;
+  const invoice = await fetchInvoiceDocument(id);
+
+  if (!invoice) {
+    notFound();
+  }
+
+  return (
+    <main>
+      <div className="print:hidden">
+        <Breadcrumbs
+          breadcrumbs={[
+            { label: 'Invoices', href: '/dashboard/invoices' },
+            {
+              label: `Invoice #${id.slice(0, 8).toUpperCase()}`,
+              href: `/dashboard/invoices/${id}`,
+              active: true,
+            },
+          ]}
+        />
+        <div className="mb-6 flex justify-end gap-3">
+          <UpdateInvoice id={id} />
+          <DownloadInvoice id={id} />
+          <PrintButton />
+        </div>
+      </div>
+      <InvoiceDocument invoice={invoice} />
+    </main>
+  );
+}
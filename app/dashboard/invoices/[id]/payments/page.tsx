@@ -0,0 +1,39 @@
+import Breadcrumbs from '@/app/ui/invoices/breadcrumbs';
+import PaymentForm from '@/app/ui/invoices/payment-form';
+import Payments from '@/app/ui/invoices/payments';
+import { fetchInvoiceDocument, fetchInvoicePayments } from '@/app/lib/data';
+import { notFound } from 'next/navigation';
+
+export default async function Page(props: { params: Promise<{ id: string }> }) {
+  const params = await props.params;
+  const id = params.id;
+  const [invoice, payments] = await Promise.all([
+    fetchInvoiceDocument(id),
+    fetchInvoicePayments(id),
+  ]);
+
+  if (!invoice) {
+    notFound();
+  }
+
+  return (
+    <main>
+      <Breadcrumbs
+        breadcrumbs={[
+          { label: 'Invoices', href: '/dashboard/invoices' },
+          {
+            label: `Invoice #${id.slice(0, 8).toUpperCase()}`,
+            href: `/dashboard/invoices/${id}`,
+          },
+          {
+            label: 'Record Payment',
+            href: `/dashboard/invoices/${id}/payments`,
+            active: true,
+          },
+        ]}
+      />
+      <Payments invoice={invoice} payments={payments} />
+      {invoice.balance > 0 && <PaymentForm invoice={invoice} />}
+    </main>
+  );
+}
@@ -0,0 +1,139 @@
+import { fetchInvoiceDocument } from '@/app/lib/data';
+import { InvoiceDocument } from '@/app/lib/definitions';
+import { createPdf, PAGE_HEIGHT, PdfPage } from '@/app/lib/pdf';
+import { formatCurrency, formatDateToLocal } from '@/app/lib/utils';
+
+const LEFT = 50;
+const RIGHT = 545;
+const BOTTOM = 60;
+const ROW_HEIGHT = 18;
+
+// Lays the invoice out on as many A4 pages as its line items need
+function layoutInvoice(invoice: InvoiceDocument) {
+  const format = (amount: number) => formatCurrency(amount, invoice.currency);
+  const pages: PdfPage[] = [];
+  let page: PdfPage = { texts: [], lines: [] };
+  let y = PAGE_HEIGHT - 60;
+
+  const newPage = () => {
+    pages.push(page);
+    page = { texts: [], lines: [] };
+    y = PAGE_HEIGHT - 60;
+  };
+
+  page.texts.push(
+    { x: LEFT, y, text: 'Invoice', size: 24, bold: true },
+    {
+      x: RIGHT,
+      y,
+      text: `#${invoice.id.slice(0, 8).toUpperCase()}`,
+      size: 12,
+      align: 'right',
+    },
+  );
+  y -= 40;
+
+  page.texts.push(
+    { x: LEFT, y, text: 'Billed to', bold: true },
+    { x: LEFT, y: y - 14, text: invoice.customer_name },
+    { x: LEFT, y: y - 28, text: invoice.customer_email },
+    { x: RIGHT, y, text: `Date: ${formatDateToLocal(invoice.date)}`, align: 'right' },
+    {
+      x: RIGHT,
+      y: y - 14,
+      text: `Due: ${formatDateToLocal(invoice.due_date)} (Net ${invoice.payment_terms})`,
+      align: 'right',
+    },
+    {
+      x: RIGHT,
+      y: y - 28,
+      text: `Status: ${invoice.status.charAt(0).toUpperCase()}${invoice.status.slice(1)}`,
+      align: 'right',
+    },
+  );
+  y -= 70;
+
+  const header = () => {
+    page.texts.push(
+      { x: LEFT, y, text: 'Description', bold: true },
+      { x: 360, y, text: 'Qty', bold: true, align: 'right' },
+      { x: 450, y, text: 'Unit price', bold: true, align: 'right' },
+      { x: RIGHT, y, text: 'Total', bold: true, align: 'right' },
+    );
+    page.lines!.push({ x1: LEFT, y1: y - 6, x2: RIGHT, y2: y - 6 });
+    y -= ROW_HEIGHT + 4;
+  };
+  header();
+
+  invoice.items.forEach((item) => {
+    if (y < BOTTOM + ROW_HEIGHT) {
+      newPage();
+      header();
+    }
+    page.texts.push(
+      { x: LEFT, y, text: item.description },
+      { x: 360, y, text: item.quantity.toString(), align: 'right' },
+      { x: 450, y, text: format(item.unit_price), align: 'right' },
+      { x: RIGHT, y, text: format(item.quantity * item.unit_price), align: 'right' },
+    );
+    y -= ROW_HEIGHT;
+  });
+
+  // Keep the totals block together
+  if (y < BOTTOM + ROW_HEIGHT * 7) newPage();
+  page.lines!.push({ x1: 360, y1: y + 8, x2: RIGHT, y2: y + 8 });
+  const totals: [string, number][] = [['Subtotal', invoice.subtotal]];
+  if (invoice.discount > 0) totals.push(['Discount', -invoice.discount]);
+  if (invoice.tax_rate > 0) totals.push([`Tax (${invoice.tax_rate}%)`, invoice.tax]);
+  totals.forEach(([label, amount]) => {
+    page.texts.push(
+      { x: 450, y, text: label, align: 'right' },
+      { x: RIGHT, y, text: format(amount), align: 'right' },
+    );
+    y -= ROW_HEIGHT;
+  });
+  page.texts.push(
+    { x: 450, y, text: 'Total', bold: true, size: 12, align: 'right' },
+    { x: RIGHT, y, text: format(invoice.amount), bold: true, size: 12, align: 'right' },
+  );
+  if (invoice.balance < invoice.amount) {
+    y -= ROW_HEIGHT;
+    page.texts.push(
+      { x: 450, y, text: 'Paid', align: 'right' },
+      { x: RIGHT, y, text: format(invoice.balance - invoice.amount), align: 'right' },
+      { x: 450, y: y - ROW_HEIGHT, text: 'Balance due', bold: true, align: 'right' },
+      { x: RIGHT, y: y - ROW_HEIGHT, text: format(invoice.balance), bold: true, align: 'right' },
+    );
+  }
+
+  pages.push(page);
+  return pages;
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+
+  try {
+    const invoice = await fetchInvoiceDocument(id);
+    if (!invoice) {
+      return Response.json({ error: 'Invoice not found.' }, { status: 404 });
+    }
+
+    const pdf = createPdf(layoutInvoice(invoice));
+    return new Response(pdf, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="invoice-${invoice.id.slice(0, 8)}.pdf"`,
+      },
+    });
+  } catch (error) {
+    console.error('PDF Error:', error);
+    return Response.json(
+      { error: 'Failed to create the invoice PDF.' },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { streamFilteredInvoices } from '@/app/lib/data';
+import { csvFilename, toCsvStream } from '@/app/lib/csv';
+import { getInvoiceFilters } from '@/app/lib/utils';
+
+// Downloads every invoice matching the table's current search and filters as CSV
+export async function GET(request: Request) {
+  const filters = getInvoiceFilters(
+    Object.fromEntries(new URL(request.url).searchParams),
+  );
+
+  const csv = toCsvStream(
+    [
+      'id',
+      'customer',
+      'email',
+      'date',
+      'due_date',
+      'status',
+      'currency',
+      'amount',
+      'balance',
+    ],
+    streamFilteredInvoices(filters),
+    (invoice) => [
+      invoice.id,
+      invoice.name,
+      invoice.email,
+      invoice.date,
+      invoice.due_date,
+      invoice.status,
+      invoice.currency,
+      (invoice.amount / 100).toFixed(2), // Amounts are stored in cents
+      (invoice.balance / 100).toFixed(2),
+    ],
+  );
+
+  return new Response(csv, {
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${csvFilename('invoices')}"`,
+    },
+  });
+}
@@ -0,0 +1,36 @@
+import ImportForm from '@/app/ui/import-form';
+import Breadcrumbs from '@/app/ui/invoices/breadcrumbs';
+
+export default function Page() {
+  return (
+    <main>
+      <Breadcrumbs
+        breadcrumbs={[
+          { label: 'Invoices', href: '/dashboard/invoices' },
+          {
+            label: 'Import Invoices',
+            href: '/dashboard/invoices/import',
+            active: true,
+          },
+        ]}
+      />
+      {/* Rows sharing an "invoice" value become line items of one invoice */}
+      <ImportForm
+        type="invoices"
+        columns={[
+          'invoice',
+          'customer_email',
+          'date',
+          'status',
+          'payment_terms',
+          'currency',
+          'tax_rate',
+          'discount',
+          'description',
+          'quantity',
+          'unit_price',
+        ]}
+      />
+    </main>
+  );
+}
@@ -1,41 +1,115 @@
 import Pagination from '@/app/ui/invoices/pagination';
 import Search from '@/app/ui/search';
 import Table from '@/app/ui/invoices/table';
-import { CreateInvoice } from '@/app/ui/invoices/buttons';
+import Filters from '@/app/ui/invoices/filters';
+import {
+  CreateInvoice,
+  ExportInvoices,
+  ImportInvoices,
+  InvoicesTrash,
+} from '@/app/ui/invoices/buttons';
 import { lusitana } from '@/app/ui/fonts';
 import { InvoicesTableSkeleton } from '@/app/ui/skeletons';
 import { Suspense } from 'react';
-import { fetchInvoicesPages } from '@/app/lib/data';
+import {
+  fetchInvoicesCount,
+  fetchInvoicesCountEstimate,
+  fetchInvoicesPages,
+} from '@/app/lib/data';
+import {
+  getInvoiceFilters,
+  getSort,
+  invoicesSortColumns,
+  parseInvoiceCursor,
+} from '@/app/lib/utils';
 import { Metadata } from 'next';
  
 export const metadata: Metadata = {
   title: 'Invoices | Blue Dashboard',
 };
 
-export default async function Page(props: {searchParams?: Promise<{query?: string;page?: string;}>;
+export default async function Page(props: {
+  searchParams?: Promise<{
+    query?: string;
+    page?: string;
+    status?: string;
+    from?: string;
+    to?: string;
+    minAmount?: string;
+    maxAmount?: string;
+    sort?: string;
+    dir?: string;
+    after?: string;
+    before?: string;
+  }>;
 }) {
 
       const searchParams = await props.searchParams;
-      const query = searchParams?.query || '';
+      const filters = getInvoiceFilters(searchParams);
+      // Search results are ranked by relevance unless another sort is picked
+      const sort = getSort(
+        searchParams,
+        invoicesSortColumns,
+        filters.query
+          ? { column: 'relevance', dir: 'desc' }
+          : { column: 'date', dir: 'desc' },
+      );
       const currentPage = Number(searchParams?.page) || 1;
-      const totalPages = await fetchInvoicesPages(query);
+
+      // In date order, which is the default, pages are walked by keyset cursor
+      // and the total is only shown as a count. That count is the planner's
+      // estimate, unless INVOICES_EXACT_TOTAL asks for a full COUNT(*).
+      const cursor =
+        sort.column === 'date'
+          ? {
+              after: parseInvoiceCursor(searchParams?.after),
+              before: parseInvoiceCursor(searchParams?.before),
+            }
+          : undefined;
+      const approximate = process.env.INVOICES_EXACT_TOTAL !== 'true';
+      const [totalPages, totalInvoices] = cursor
+        ? [
+            undefined,
+            approximate
+              ? await fetchInvoicesCountEstimate(filters)
+              : await fetchInvoicesCount(filters),
+          ]
+        : [await fetchInvoicesPages(filters), undefined];
       return (
         <div className="w-full">
           <div className="flex w-full items-center justify-between">
             <h1 className={`${lusitana.className} text-2xl`}>Invoices</h1>
+            {totalInvoices !== undefined && (
+              <p className="text-sm text-gray-500">
+                {approximate && 'About '}
+                {totalInvoices.toLocaleString()} invoices
+              </p>
+            )}
           </div>
           <div className="mt-4 flex items-center justify-between gap-2 md:mt-8">
-            <Search placeholder="Search invoices..." />
+            <Search placeholder="Search by customer name or email..." />
+            <InvoicesTrash />
+            <ImportInvoices />
+            <ExportInvoices filters={filters} />
             <CreateInvoice />
           </div>
-          <Suspense key={query + currentPage} fallback={<InvoicesTableSkeleton />}>
-            <Table query={query} currentPage={currentPage} />
+          <Filters />
+          <Suspense
+            key={JSON.stringify({ filters, sort, cursor }) + currentPage}
+            fallback={<InvoicesTableSkeleton />}
+          >
+            <Table
+              filters={filters}
+              currentPage={currentPage}
+              sort={sort}
+              cursor={cursor}
+            />
           </Suspense>
-          <div className="mt-5 flex w-full justify-center">
-            <Pagination totalPages={totalPages} />
-          </div>
+          {totalPages !== undefined && (
+            <div className="mt-5 flex w-full justify-center">
+              <Pagination totalPages={totalPages} />
+            </div>
+          )}
         </div>
   );
 }
-
-
@@ -0,0 +1,47 @@
+import Breadcrumbs from '@/app/ui/invoices/breadcrumbs';
+import Pagination from '@/app/ui/invoices/pagination';
+import Table from '@/app/ui/invoices/trash-table';
+import { InvoicesTableSkeleton } from '@/app/ui/skeletons';
+import { Suspense } from 'react';
+import { fetchDeletedInvoicesPages } from '@/app/lib/data';
+import { TRASH_RETENTION_DAYS } from '@/app/lib/utils';
+import { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: 'Trash | Blue Dashboard',
+};
+
+export default async function Page(props: {
+  searchParams?: Promise<{
+    page?: string;
+  }>;
+}) {
+  const searchParams = await props.searchParams;
+  const currentPage = Number(searchParams?.page) || 1;
+  const totalPages = await fetchDeletedInvoicesPages();
+
+  return (
+    <main>
+      <Breadcrumbs
+        breadcrumbs={[
+          { label: 'Invoices', href: '/dashboard/invoices' },
+          {
+            label: 'Trash',
+            href: '/dashboard/invoices/trash',
+            active: true,
+          },
+        ]}
+      />
+      <p className="text-sm text-gray-500">
+        Deleted invoices can be restored at any time, and deleted permanently{' '}
+        {TRASH_RETENTION_DAYS} days after they were deleted.
+      </p>
+      <Suspense key={currentPage} fallback={<InvoicesTableSkeleton />}>
+        <Table currentPage={currentPage} />
+      </Suspense>
+      <div className="mt-5 flex w-full justify-center">
+        <Pagination totalPages={totalPages} />
+      </div>
+    </main>
+  );
+}
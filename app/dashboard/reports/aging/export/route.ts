@@ -0,0 +1,38 @@
+import { fetchAgingReport } from '@/app/lib/data';
+import { csvFilename, toCsvRow } from '@/app/lib/csv';
+import { agingBuckets, BASE_CURRENCY } from '@/app/lib/utils';
+
+// Downloads the aging report as CSV: a row per customer with a pending
+// balance, then the total. It's small enough to build in one go.
+export async function GET() {
+  const { customers, total } = await fetchAgingReport();
+  const currency = BASE_CURRENCY.toLowerCase();
+
+  const csv = [
+    toCsvRow([
+      'customer_id',
+      'name',
+      'email',
+      'invoices',
+      ...agingBuckets.map((bucket) => `${bucket}_${currency}`),
+      `total_${currency}`,
+    ]),
+    ...[...customers, total].map((row) =>
+      toCsvRow([
+        row.customer_id,
+        row.customer_id === null ? 'Total' : row.name,
+        row.email,
+        row.invoices,
+        ...agingBuckets.map((bucket) => (row[bucket] / 100).toFixed(2)),
+        (row.total / 100).toFixed(2),
+      ]),
+    ),
+  ].join('');
+
+  return new Response(csv, {
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${csvFilename('aging-report')}"`,
+    },
+  });
+}
@@ -0,0 +1,27 @@
+import AgingTable from '@/app/ui/reports/aging-table';
+import { ExportAgingReport } from '@/app/ui/reports/buttons';
+import { lusitana } from '@/app/ui/fonts';
+import { AgingReportSkeleton } from '@/app/ui/skeletons';
+import { Suspense } from 'react';
+import { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: 'Aging Report | Blue Dashboard',
+};
+
+export default function Page() {
+  return (
+    <div className="w-full">
+      <div className="flex w-full items-center justify-between">
+        <h1 className={`${lusitana.className} text-2xl`}>Aging Report</h1>
+        <ExportAgingReport />
+      </div>
+      <p className="mt-2 text-sm text-gray-500">
+        Pending balances by days since the invoice date, in the base currency.
+      </p>
+      <Suspense fallback={<AgingReportSkeleton />}>
+        <AgingTable />
+      </Suspense>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import Form from '@/app/ui/users/password-form';
+import Breadcrumbs from '@/app/ui/invoices/breadcrumbs';
+import { fetchUserById } from '@/app/lib/data';
+import { notFound } from 'next/navigation';
+
+export default async function Page(props: { params: Promise<{ id: string }> }) {
+  const params = await props.params;
+  const id = params.id;
+  const user = await fetchUserById(id);
+
+  // Users who also belong to another organization reset their own password
+  if (!user || user.other_organizations > 0) {
+    notFound();
+  }
+
+  return (
+    <main>
+      <Breadcrumbs
+        breadcrumbs={[
+          { label: 'Users', href: '/dashboard/users' },
+          {
+            label: 'Reset Password',
+            href: `/dashboard/users/${id}/password`,
+            active: true,
+          },
+        ]}
+      />
+      <Form user={user} />
+    </main>
+  );
+}
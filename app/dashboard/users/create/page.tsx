@@ -0,0 +1,20 @@
+import Form from '@/app/ui/users/create-form';
+import Breadcrumbs from '@/app/ui/invoices/breadcrumbs';
+
+export default function Page() {
+  return (
+    <main>
+      <Breadcrumbs
+        breadcrumbs={[
+          { label: 'Users', href: '/dashboard/users' },
+          {
+            label: 'Invite User',
+            href: '/dashboard/users/create',
+            active: true,
+          },
+        ]}
+      />
+      <Form />
+    </main>
+  );
+}
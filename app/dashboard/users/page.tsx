@@ -0,0 +1,20 @@
+import Table from '@/app/ui/users/table';
+import { InviteUser } from '@/app/ui/users/buttons';
+import { lusitana } from '@/app/ui/fonts';
+import { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: 'Users | Blue Dashboard',
+};
+
+export default function Page() {
+  return (
+    <div className="w-full">
+      <div className="flex w-full items-center justify-between">
+        <h1 className={`${lusitana.className} text-2xl`}>Users</h1>
+        <InviteUser />
+      </div>
+      <Table />
+    </div>
+  );
+}
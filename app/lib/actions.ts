@@ -2,27 +2,95 @@
 
 import { z } from 'zod'; // Imports Zod for schema validation
 import postgres from 'postgres'; // Imports the postgres client library
+import bcrypt from 'bcrypt'; // Imports bcrypt to hash user passwords
+import { createHash, randomBytes } from 'crypto'; // Imports helpers to make and hash reset tokens
 import { revalidatePath } from 'next/cache'; // Imports function to revalidate Next.js cache
 import { redirect } from 'next/navigation'; // Imports function to redirect user
-import { signIn } from '@/auth';
+import { headers } from 'next/headers'; // Imports request headers, to rate limit sign-ins and resets by IP
+import {
+  auth,
+  signIn,
+  switchActiveOrganization,
+  verifyTwoFactor,
+} from '@/auth';
 import { AuthError } from 'next-auth';
+import {
+  LoginLockedError,
+  clearLoginFailures,
+  clientIp,
+  fetchLockedUntil,
+  fetchResetLockedUntil,
+  recordLoginFailure,
+  recordResetRequest,
+} from '@/app/lib/login-attempts';
+import { verifyTotp } from '@/app/lib/totp';
+import { replaceRecoveryCodes } from '@/app/lib/two-factor';
+import { sendMail } from '@/app/lib/mail';
+import {
+  BASE_CURRENCY,
+  TRASH_RETENTION_DAYS,
+  currencies,
+  formatCurrency,
+  paymentMethods,
+} from '@/app/lib/utils';
+import { CsvRecord, parseCsvRecords } from '@/app/lib/csv';
+import { ImportRow, ImportType } from '@/app/lib/definitions';
+import {
+  customerSnapshot,
+  invoiceSnapshot,
+  paymentSnapshot,
+  userSnapshot,
+  writeAudit,
+} from '@/app/lib/audit';
+import { Actor, getActor } from '@/app/lib/session';
+import { can, roles } from '@/app/lib/permissions';
 
 // Creates a connection to the PostgreSQL database using the URL from environment variables, with SSL required
 const sql = postgres(process.env.POSTGRES_URL!, { ssl: 'require' });
  
+// Defines a schema for a single invoice line item using Zod
+const LineItemSchema = z.object({
+  description: z
+    .string({ invalid_type_error: 'Please describe each line item.' })
+    .trim()
+    .min(1, { message: 'Please describe each line item.' }),
+  quantity: z.coerce
+    .number()
+    .int({ message: 'Please enter whole-number quantities.' })
+    .gt(0, { message: 'Please enter quantities greater than 0.' }),
+  unitPrice: z.coerce // Unit price in dollars, converted to cents on save
+    .number()
+    .gt(0, { message: 'Please enter unit prices greater than $0.' }),
+});
+
 // Defines a schema for invoice data using Zod
 const FormSchema = z.object({
   id: z.string(), // Invoice ID as a string
   customerId: z.string({ // Customer ID as a string, with custom error message
     invalid_type_error: 'Please select a customer.',
   }),
-  amount: z.coerce // Coerces input to a number
-    .number()
-    .gt(0, { message: 'Please enter an amount greater than $0.' }), // Must be greater than 0
+  items: z
+    .array(LineItemSchema)
+    .min(1, { message: 'Please add at least one line item.' }), // The invoice amount is their total
   status: z.enum(['pending', 'paid'], { // Status must be 'pending' or 'paid', with custom error
     invalid_type_error: 'Please select an invoice status.',
   }),
   date: z.string(), // Date as a string
+  currency: z.enum(currencies, { // Currency must be one we hold an exchange rate for
+    invalid_type_error: 'Please select a currency.',
+  }),
+  taxRate: z.coerce // Optional tax percentage; an empty field coerces to 0
+    .number()
+    .min(0, { message: 'Please enter a tax rate of 0% or more.' })
+    .max(100, { message: 'Please enter a tax rate of at most 100%.' }),
+  discount: z.coerce // Optional discount in the invoice currency; an empty field coerces to 0
+    .number()
+    .min(0, { message: 'Please enter a discount of 0 or more.' }),
+  paymentTerms: z.coerce // Coerces the selected "Net N" option to a number of days
+    .number({ invalid_type_error: 'Please select payment terms.' })
+    .refine((days) => [15, 30, 60].includes(days), {
+      message: 'Please select payment terms.',
+    }),
 });
  
 // Creates a new schema for creating invoices, omitting 'id' and 'date' fields
@@ -32,19 +100,128 @@ const CreateInvoice = FormSchema.omit({ id: true, date: true });
 export type State = {
   errors?: {
     customerId?: string[]; // Array of errors for customerId
-    amount?: string[]; // Array of errors for amount
+    items?: string[]; // Array of errors for line items
     status?: string[]; // Array of errors for status
+    paymentTerms?: string[]; // Array of errors for paymentTerms
+    currency?: string[]; // Array of errors for currency
+    taxRate?: string[]; // Array of errors for taxRate
+    discount?: string[]; // Array of errors for discount
   };
   message?: string | null; // Message to display to user
 };
+
+// Reads the line item rows submitted by the LineItems editor.
+// Each column is a repeated form field, so row i is the i-th value of each.
+function getLineItems(formData: FormData) {
+  const quantities = formData.getAll('itemQuantity');
+  const unitPrices = formData.getAll('itemUnitPrice');
+  return formData.getAll('itemDescription').map((description, i) => ({
+    description,
+    quantity: quantities[i],
+    unitPrice: unitPrices[i],
+  }));
+}
+
+// Converts validated line items to cents and computes the invoice total:
+// the items' subtotal, less the discount, plus tax on what remains
+function priceLineItems(
+  items: z.infer<typeof LineItemSchema>[],
+  discount: number,
+  taxRate: number,
+) {
+  const pricedItems = items.map((item, position) => ({
+    description: item.description,
+    quantity: item.quantity,
+    unit_price: Math.round(item.unitPrice * 100), // Convert unit price to cents
+    position,
+  }));
+  const subtotalInCents = pricedItems.reduce(
+    (total, item) => total + item.quantity * item.unit_price,
+    0,
+  );
+  const discountInCents = Math.round(discount * 100);
+  const taxableInCents = subtotalInCents - discountInCents;
+  const taxInCents = Math.round((taxableInCents * taxRate) / 100);
+  const amountInCents = taxableInCents + taxInCents;
+  return { pricedItems, discountInCents, taxableInCents, amountInCents };
+}
+
+// Records a payment for whatever is still owed on an invoice, so invoices
+// marked paid by hand have the same ledger as ones paid through payments
+async function payOutstandingBalance(
+  sql: postgres.TransactionSql,
+  invoiceId: string,
+  date: string,
+) {
+  await sql`
+    INSERT INTO payments (invoice_id, amount, date, method, reference)
+    SELECT id, balance, ${date}, 'other', 'Marked as paid'
+    FROM (
+      SELECT
+        invoices.id,
+        invoices.amount - COALESCE(SUM(payments.amount), 0) AS balance
+      FROM invoices
+      LEFT JOIN payments ON payments.invoice_id = invoices.id
+      WHERE invoices.id = ${invoiceId}
+      GROUP BY invoices.id
+    ) AS outstanding
+    WHERE balance > 0
+  `;
+}
+
+// Moves an invoice to paid once its payments cover the total, dated by the
+// payment that settled it
+async function settleInvoice(
+  sql: postgres.TransactionSql,
+  invoiceId: string,
+  date: string,
+) {
+  await sql`
+    UPDATE invoices
+    SET status = 'paid', paid_at = COALESCE(paid_at, ${date})
+    WHERE id = ${invoiceId}
+      AND status <> 'paid'
+      AND amount <= (
+        SELECT COALESCE(SUM(amount), 0) FROM payments WHERE invoice_id = ${invoiceId}
+      )
+  `;
+}
+
+// Invoices can only be made out to customers of the organization they belong to
+async function checkCustomerOrganization(
+  sql: postgres.TransactionSql,
+  customerId: string,
+  organizationId: string | null,
+) {
+  const [customer] = await sql`
+    SELECT id FROM customers
+    WHERE id = ${customerId} AND organization_id = ${organizationId}
+  `;
+  if (!customer) {
+    throw new Error(`Customer ${customerId} is not in this organization.`);
+  }
+}
+
+const discountTooLargeState: State = {
+  errors: { discount: ['The discount cannot exceed the line items subtotal.'] },
+};
  
 // Asynchronous function to create a new invoice in the database
 export async function createInvoice(prevState: State, formData: FormData) {
+  const actor = await getActor(); // Who is making the change, for permissions and the audit log
+  if (!can(actor.role, 'manage_invoices')) {
+    return { message: 'Not Authorized: Failed to Create Invoice.' };
+  }
+
   // Validate form using Zod schema
   const validatedFields = CreateInvoice.safeParse({
     customerId: formData.get('customerId'), // Get customerId from form data
-    amount: formData.get('amount'), // Get amount from form data
+    items: getLineItems(formData), // Get line items from form data
     status: formData.get('status'), // Get status from form data
+    paymentTerms: formData.get('paymentTerms'), // Get payment terms from form data
+    currency: formData.get('currency'), // Get currency from form data
+    taxRate: formData.get('taxRate'), // Get tax rate from form data
+    discount: formData.get('discount'), // Get discount from form data
   });
  
   // If form validation fails, return errors early. Otherwise, continue.
@@ -56,18 +233,62 @@ export async function createInvoice(prevState: State, formData: FormData) {
   }
  
   // Prepare data for insertion into the database
-  const { customerId, amount, status } = validatedFields.data; // Extract validated data
-  const amountInCents = amount * 100; // Convert amount to cents
+  const {
+    customerId,
+    items,
+    status,
+    paymentTerms,
+    currency,
+    taxRate,
+    discount,
+  } = validatedFields.data; // Extract validated data
+  const { pricedItems, discountInCents, taxableInCents, amountInCents } =
+    priceLineItems(items, discount, taxRate); // Total the line items in cents
+  if (taxableInCents < 0) {
+    return {
+      ...discountTooLargeState,
+      message: 'Invalid Discount. Failed to Create Invoice.',
+    };
+  }
   const date = new Date().toISOString().split('T')[0]; // Get current date in YYYY-MM-DD format
+  const paidAt = status === 'paid' ? date : null; // Invoices created as paid are paid today
  
-  // Insert data into the database
+  // Insert the invoice and its line items together, so neither exists without the other
   try {
-    await sql`
-      INSERT INTO invoices (customer_id, amount, status, date)
-      VALUES (${customerId}, ${amountInCents}, ${status}, ${date})
-    `; // SQL query to insert invoice
+    await sql.begin(async (sql) => {
+      await checkCustomerOrganization(sql, customerId, actor.organizationId);
+      const [invoice] = await sql`
+        INSERT INTO invoices (
+          organization_id, customer_id, amount, status, date, paid_at,
+          payment_terms, due_date, currency, tax_rate, discount
+        )
+        VALUES (
+          ${actor.organizationId}, ${customerId}, ${amountInCents}, ${status},
+          ${date}, ${paidAt}, ${paymentTerms}, ${date}::date + ${paymentTerms}::int,
+          ${currency}, ${taxRate}, ${discountInCents}
+        )
+        RETURNING id
+      `; // SQL query to insert invoice
+      await sql`
+        INSERT INTO invoice_items ${sql(
+          pricedItems.map((item) => ({ ...item, invoice_id: invoice.id })),
+        )}
+      `; // SQL query to insert line items
+      if (status === 'paid') {
+        await payOutstandingBalance(sql, invoice.id, date); // Record the payment
+      }
+      await writeAudit(sql, {
+        actor,
+        action: 'create',
+        entityType: 'invoice',
+        entityId: invoice.id,
+        before: null,
+        after: await invoiceSnapshot(sql, invoice.id),
+      }); // Record the change in the audit log
+    });
   } catch (error) {
-    // If a database error occurs, return a more specific error.
+    // If a database error occurs, log it and return a more specific error.
+    console.error('Database Error:', error);
     return {
       message: 'Database Error: Failed to Create Invoice.', // Error message
     };
@@ -75,6 +296,7 @@ export async function createInvoice(prevState: State, formData: FormData) {
  
   // Revalidate the cache for the invoices page and redirect the user.
   revalidatePath('/dashboard/invoices'); // Refresh invoices page cache
+  revalidatePath('/dashboard/customers', 'layout'); // Refresh customer totals and history
   redirect('/dashboard/invoices'); // Redirect user to invoices page
 }
 
@@ -87,10 +309,19 @@ export async function updateInvoice(
   prevState: State,
   formData: FormData,
 ) {
+  const actor = await getActor();
+  if (!can(actor.role, 'manage_invoices')) {
+    return { message: 'Not Authorized: Failed to Update Invoice.' };
+  }
+
   const validatedFields = UpdateInvoice.safeParse({
     customerId: formData.get('customerId'),
-    amount: formData.get('amount'),
+    items: getLineItems(formData),
     status: formData.get('status'),
+    paymentTerms: formData.get('paymentTerms'),
+    currency: formData.get('currency'),
+    taxRate: formData.get('taxRate'),
+    discount: formData.get('discount'),
   });
  
   if (!validatedFields.success) {
@@ -100,49 +331,1758 @@ export async function updateInvoice(
     };
   }
  
-  const { customerId, amount, status } = validatedFields.data;
-  const amountInCents = amount * 100;
- 
+  const {
+    customerId,
+    items,
+    status,
+    paymentTerms,
+    currency,
+    taxRate,
+    discount,
+  } = validatedFields.data;
+  const { pricedItems, discountInCents, taxableInCents, amountInCents } =
+    priceLineItems(items, discount, taxRate);
+  if (taxableInCents < 0) {
+    return {
+      ...discountTooLargeState,
+      message: 'Invalid Discount. Failed to Update Invoice.',
+    };
+  }
+
+  // Replace the line items and the total they add up to in one transaction
   try {
-    await sql`
-      UPDATE invoices
-      SET customer_id = ${customerId}, amount = ${amountInCents}, status = ${status}
-      WHERE id = ${id}
-    `;
+    const fullyPaid = await sql.begin(async (sql) => {
+      // Invoices in the trash have to be restored before they can be edited
+      const [invoice] = await sql`
+        SELECT id, status FROM invoices
+        WHERE id = ${id} AND organization_id = ${actor.organizationId} AND deleted_at IS NULL
+        FOR UPDATE
+      `;
+      if (!invoice) throw new Error(`Invoice ${id} is deleted or missing.`);
+      await checkCustomerOrganization(sql, customerId, actor.organizationId);
+
+      // An invoice its payments cover is paid, whatever the form says
+      const [{ paid }] = await sql`
+        SELECT COALESCE(SUM(amount), 0)::int AS paid
+        FROM payments WHERE invoice_id = ${id}
+      `;
+      if (status === 'pending' && paid > 0 && paid >= amountInCents) return true;
+
+      const before = await invoiceSnapshot(sql, id);
+      await sql`DELETE FROM invoice_items WHERE invoice_id = ${id}`;
+      await sql`
+        INSERT INTO invoice_items ${sql(
+          pricedItems.map((item) => ({ ...item, invoice_id: id })),
+        )}
+      `;
+      await sql`
+        UPDATE invoices
+        SET
+          customer_id = ${customerId},
+          amount = ${amountInCents},
+          status = ${status},
+          paid_at = CASE
+            WHEN ${status} = 'paid' THEN COALESCE(paid_at, CURRENT_DATE)
+            ELSE NULL
+          END,
+          payment_terms = ${paymentTerms},
+          due_date = date + ${paymentTerms}::int,
+          currency = ${currency},
+          tax_rate = ${taxRate},
+          discount = ${discountInCents}
+        WHERE id = ${id}
+      `;
+      // Only marking a pending invoice as paid records the rest as paid today.
+      // A paid invoice's total can change without inventing a payment.
+      const today = new Date().toISOString().split('T')[0];
+      if (status === 'paid' && invoice.status === 'pending') {
+        await payOutstandingBalance(sql, id, today);
+      }
+      await settleInvoice(sql, id, today); // Payments may now cover a lower total
+      await writeAudit(sql, {
+        actor,
+        action: 'update',
+        entityType: 'invoice',
+        entityId: id,
+        before,
+        after: await invoiceSnapshot(sql, id),
+      });
+      return false;
+    });
+    if (fullyPaid) {
+      return {
+        errors: {
+          status: ['Its payments already cover the total, so it cannot be pending.'],
+        },
+        message: 'Invalid Status. Failed to Update Invoice.',
+      };
+    }
   } catch (error) {
+    console.error('Database Error:', error);
     return { message: 'Database Error: Failed to Update Invoice.' };
   }
  
   revalidatePath('/dashboard/invoices');
+  revalidatePath('/dashboard/customers', 'layout');
   redirect('/dashboard/invoices');
 }
 
-// Asynchronous function to delete an invoice from the database
-export async function deleteInvoice(id: string) {
+// Type definition for the state of an action confirmed in a dialog, such as
+// deleting an invoice; only failures have anything to report
+export type ConfirmState = {
+  message?: string | null;
+};
 
-  //throw new Error('Failed to Delete Invoice'); // Uncomment to simulate error
+// Moves an invoice to the trash. It drops out of every list and total, but
+// can be restored until it is purged.
+export async function deleteInvoice(id: string): Promise<ConfirmState> {
+  const actor = await getActor(); // Who is making the change, for the audit log
+  if (!can(actor.role, 'manage_invoices')) {
+    return { message: 'Not Authorized: Failed to Delete Invoice.' };
+  }
   try {
-    await sql`DELETE FROM invoices WHERE id = ${id}`; // SQL query to delete invoice
-    revalidatePath('/dashboard/invoices'); // Refresh invoices page cache
-    //redirect('/dashboard/invoices'); // Optionally redirect user
+    await sql.begin(async (sql) => {
+      const before = await invoiceSnapshot(sql, id); // Keep what is deleted in the audit log
+      const deleted = await sql`
+        UPDATE invoices
+        SET deleted_at = NOW()
+        WHERE id = ${id} AND organization_id = ${actor.organizationId} AND deleted_at IS NULL
+      `; // Soft delete the invoice
+      if (deleted.count === 0) return; // Already in the trash
+      await writeAudit(sql, {
+        actor,
+        action: 'delete',
+        entityType: 'invoice',
+        entityId: id,
+        before,
+        after: null,
+      });
+    });
   } catch (error) {
-    console.error('Error deleting invoice:', error); // Log error to console
+    console.error('Database Error:', error);
+    return { message: 'Database Error: Failed to Delete Invoice.' };
   }
+
+  revalidatePath('/dashboard', 'layout'); // Refresh every list and total the invoice was in
+  return {};
 }
 
-export async function authenticate(
-  prevState: string | undefined,
+// Takes an invoice back out of the trash
+export async function restoreInvoice(id: string): Promise<ConfirmState> {
+  const actor = await getActor();
+  if (!can(actor.role, 'manage_invoices')) {
+    return { message: 'Not Authorized: Failed to Restore Invoice.' };
+  }
+  try {
+    await sql.begin(async (sql) => {
+      const restored = await sql`
+        UPDATE invoices
+        SET deleted_at = NULL
+        WHERE id = ${id} AND organization_id = ${actor.organizationId} AND deleted_at IS NOT NULL
+      `;
+      if (restored.count === 0) return; // Not in the trash
+      await writeAudit(sql, {
+        actor,
+        action: 'restore',
+        entityType: 'invoice',
+        entityId: id,
+        before: null,
+        after: await invoiceSnapshot(sql, id),
+      });
+    });
+  } catch (error) {
+    console.error('Database Error:', error);
+    return { message: 'Database Error: Failed to Restore Invoice.' };
+  }
+
+  revalidatePath('/dashboard', 'layout');
+  return {};
+}
+
+// Deletes an invoice from the trash for good, along with its line items and
+// payments. Only invoices deleted longer ago than the retention period can go.
+export async function purgeInvoice(id: string): Promise<ConfirmState> {
+  const actor = await getActor();
+  if (!can(actor.role, 'purge_invoices')) {
+    return { message: 'Not Authorized: Failed to Purge Invoice.' };
+  }
+  try {
+    const purged = await sql.begin(async (sql) => {
+      const before = await invoiceSnapshot(sql, id);
+      const deleted = await sql`
+        DELETE FROM invoices
+        WHERE id = ${id}
+          AND organization_id = ${actor.organizationId}
+          AND deleted_at <= NOW() - make_interval(days => ${TRASH_RETENTION_DAYS})
+      `;
+      if (deleted.count === 0) return false;
+      await writeAudit(sql, {
+        actor,
+        action: 'purge',
+        entityType: 'invoice',
+        entityId: id,
+        before,
+        after: null,
+      });
+      return true;
+    });
+    if (!purged) {
+      return {
+        message: `Invoices can only be purged ${TRASH_RETENTION_DAYS} days after they were deleted.`,
+      };
+    }
+  } catch (error) {
+    console.error('Database Error:', error);
+    return { message: 'Database Error: Failed to Purge Invoice.' };
+  }
+
+  revalidatePath('/dashboard/invoices/trash');
+  return {};
+}
+
+// Defines a schema for a payment against an invoice using Zod
+const PaymentSchema = z.object({
+  amount: z.coerce // Amount in the invoice currency, converted to cents on save
+    .number()
+    .gt(0, { message: 'Please enter an amount greater than 0.' }),
+  date: z.string().date('Please enter the date the payment was made.'),
+  method: z.enum(paymentMethods, {
+    invalid_type_error: 'Please select a payment method.',
+  }),
+  reference: z
+    .string()
+    .trim()
+    .max(255, { message: 'Please keep the reference under 255 characters.' }),
+});
+
+// Type definition for the state object used in the payment form
+export type PaymentState = {
+  errors?: {
+    amount?: string[];
+    date?: string[];
+    method?: string[];
+    reference?: string[];
+  };
+  message?: string | null;
+};
+
+// Records a payment against an invoice. Payments cannot exceed what is
+// still owed, and the one that settles the balance marks the invoice paid.
+export async function recordPayment(
+  invoiceId: string,
+  prevState: PaymentState,
+  formData: FormData,
+): Promise<PaymentState> {
+  const actor = await getActor();
+  if (!can(actor.role, 'record_payments')) {
+    return { message: 'Not Authorized: Failed to Record Payment.' };
+  }
+
+  const validatedFields = PaymentSchema.safeParse({
+    amount: formData.get('amount'),
+    date: formData.get('date'),
+    method: formData.get('method'),
+    reference: formData.get('reference') ?? '',
+  });
+
+  if (!validatedFields.success) {
+    return {
+      errors: validatedFields.error.flatten().fieldErrors,
+      message: 'Missing Fields. Failed to Record Payment.',
+    };
+  }
+
+  const { amount, date, method, reference } = validatedFields.data;
+  const amountInCents = Math.round(amount * 100);
+
+  try {
+    const overpaid = await sql.begin(async (sql) => {
+      // Lock the invoice so concurrent payments can't both fit the same balance
+      const [invoice] = await sql`
+        SELECT amount, currency
+        FROM invoices
+        WHERE
+          id = ${invoiceId} AND
+          organization_id = ${actor.organizationId} AND
+          deleted_at IS NULL
+        FOR UPDATE
+      `;
+      if (!invoice) throw new Error(`Invoice ${invoiceId} is deleted or missing.`);
+      const [paid] = await sql`
+        SELECT COALESCE(SUM(amount), 0)::int AS total
+        FROM payments
+        WHERE invoice_id = ${invoiceId}
+      `;
+      const balance = invoice.amount - paid.total;
+      if (amountInCents > balance) {
+        return formatCurrency(balance, invoice.currency);
+      }
+
+      const before = await invoiceSnapshot(sql, invoiceId);
+      const [payment] = await sql`
+        INSERT INTO payments (invoice_id, amount, date, method, reference)
+        VALUES (${invoiceId}, ${amountInCents}, ${date}, ${method}, ${reference || null})
+        RETURNING id
+      `;
+      await settleInvoice(sql, invoiceId, date);
+
+      // Log the payment, and the invoice's new amount paid and status
+      await writeAudit(sql, {
+        actor,
+        action: 'create',
+        entityType: 'payment',
+        entityId: payment.id,
+        before: null,
+        after: await paymentSnapshot(sql, payment.id),
+      });
+      await writeAudit(sql, {
+        actor,
+        action: 'update',
+        entityType: 'invoice',
+        entityId: invoiceId,
+        before,
+        after: await invoiceSnapshot(sql, invoiceId),
+      });
+    });
+    if (overpaid) {
+      return {
+        errors: { amount: [`Please enter no more than the balance of ${overpaid}.`] },
+        message: 'Invalid Amount. Failed to Record Payment.',
+      };
+    }
+  } catch (error) {
+    console.error('Database Error:', error);
+    return { message: 'Database Error: Failed to Record Payment.' };
+  }
+
+  revalidatePath('/dashboard/invoices', 'layout');
+  revalidatePath('/dashboard/customers', 'layout');
+  redirect('/dashboard/invoices');
+}
+
+// Defines a schema for customer data using Zod
+const CustomerFormSchema = z.object({
+  id: z.string(), // Customer ID as a string
+  name: z
+    .string({ invalid_type_error: 'Please enter a name.' })
+    .trim()
+    .min(1, { message: 'Please enter a name.' }), // Name must not be empty
+  email: z
+    .string({ invalid_type_error: 'Please enter an email address.' })
+    .trim()
+    .toLowerCase()
+    .email({ message: 'Please enter a valid email address.' }), // Must be a valid email
+  imageUrl: z
+    .string({ invalid_type_error: 'Please enter an image path.' })
+    .trim()
+    .startsWith('/', {
+      message:
+        'Please enter an image path under /public, e.g. /customers/amy-burns.png.',
+    }), // Profile picture served from /public
+});
+
+const CreateCustomer = CustomerFormSchema.omit({ id: true });
+const UpdateCustomer = CustomerFormSchema.omit({ id: true });
+
+// Type definition for the state object used in customer form actions
+export type CustomerState = {
+  errors?: {
+    name?: string[];
+    email?: string[];
+    imageUrl?: string[];
+  };
+  message?: string | null;
+};
+
+// Returns true if another of the organization's customers already uses this
+// email address
+async function isCustomerEmailTaken(
+  email: string,
+  organizationId: string | null,
+  excludeId?: string,
+) {
+  const data = await sql`
+    SELECT id FROM customers
+    WHERE email = ${email} AND organization_id = ${organizationId}
+      ${excludeId ? sql`AND id <> ${excludeId}` : sql``}
+  `;
+  return data.length > 0;
+}
+
+const emailTakenState: CustomerState = {
+  errors: { email: ['A customer with this email already exists.'] },
+};
+
+// Asynchronous function to create a new customer in the database
+export async function createCustomer(
+  prevState: CustomerState,
   formData: FormData,
 ) {
+  const actor = await getActor();
+  if (!can(actor.role, 'manage_customers')) {
+    return { message: 'Not Authorized: Failed to Create Customer.' };
+  }
+
+  const validatedFields = CreateCustomer.safeParse({
+    name: formData.get('name'),
+    email: formData.get('email'),
+    imageUrl: formData.get('imageUrl'),
+  });
+
+  if (!validatedFields.success) {
+    return {
+      errors: validatedFields.error.flatten().fieldErrors,
+      message: 'Missing Fields. Failed to Create Customer.',
+    };
+  }
+
+  const { name, email, imageUrl } = validatedFields.data;
+
+  try {
+    if (await isCustomerEmailTaken(email, actor.organizationId)) {
+      return {
+        ...emailTakenState,
+        message: 'Duplicate Email. Failed to Create Customer.',
+      };
+    }
+
+    await sql.begin(async (sql) => {
+      const [customer] = await sql`
+        INSERT INTO customers (organization_id, name, email, image_url)
+        VALUES (${actor.organizationId}, ${name}, ${email}, ${imageUrl})
+        RETURNING id
+      `;
+      await writeAudit(sql, {
+        actor,
+        action: 'create',
+        entityType: 'customer',
+        entityId: customer.id,
+        before: null,
+        after: await customerSnapshot(sql, customer.id),
+      });
+    });
+  } catch (error) {
+    console.error('Database Error:', error);
+    return { message: 'Database Error: Failed to Create Customer.' };
+  }
+
+  revalidatePath('/dashboard/customers');
+  redirect('/dashboard/customers');
+}
+
+// Asynchronous function to update a customer in the database
+export async function updateCustomer(
+  id: string,
+  prevState: CustomerState,
+  formData: FormData,
+) {
+  const actor = await getActor();
+  if (!can(actor.role, 'manage_customers')) {
+    return { message: 'Not Authorized: Failed to Update Customer.' };
+  }
+
+  const validatedFields = UpdateCustomer.safeParse({
+    name: formData.get('name'),
+    email: formData.get('email'),
+    imageUrl: formData.get('imageUrl'),
+  });
+
+  if (!validatedFields.success) {
+    return {
+      errors: validatedFields.error.flatten().fieldErrors,
+      message: 'Missing Fields. Failed to Update Customer.',
+    };
+  }
+
+  const { name, email, imageUrl } = validatedFields.data;
+
+  try {
+    if (await isCustomerEmailTaken(email, actor.organizationId, id)) {
+      return {
+        ...emailTakenState,
+        message: 'Duplicate Email. Failed to Update Customer.',
+      };
+    }
+
+    await sql.begin(async (sql) => {
+      const before = await customerSnapshot(sql, id);
+      const updated = await sql`
+        UPDATE customers
+        SET name = ${name}, email = ${email}, image_url = ${imageUrl}
+        WHERE id = ${id} AND organization_id = ${actor.organizationId}
+      `;
+      if (updated.count === 0) throw new Error(`Customer ${id} is missing.`);
+      await writeAudit(sql, {
+        actor,
+        action: 'update',
+        entityType: 'customer',
+        entityId: id,
+        before,
+        after: await customerSnapshot(sql, id),
+      });
+    });
+  } catch (error) {
+    console.error('Database Error:', error);
+    return { message: 'Database Error: Failed to Update Customer.' };
+  }
+
+  revalidatePath('/dashboard/customers', 'layout');
+  revalidatePath('/dashboard/invoices'); // Invoice rows show the customer's name and email
+  redirect('/dashboard/customers');
+}
+
+// Deletes a customer who has no invoices. Invoices in the trash count too, as
+// they could still be restored; the customers table disables Delete the same way.
+export async function deleteCustomer(id: string): Promise<ConfirmState> {
+  const actor = await getActor();
+  if (!can(actor.role, 'manage_customers')) {
+    return { message: 'Not Authorized: Failed to Delete Customer.' };
+  }
+
+  try {
+    const hasInvoices = await sql.begin(async (sql) => {
+      // Locking the customer holds off new invoices for them until the delete
+      // is done, so none can be made out between the count and the delete
+      const [customer] = await sql`
+        SELECT id FROM customers
+        WHERE id = ${id} AND organization_id = ${actor.organizationId}
+        FOR UPDATE
+      `;
+      if (!customer) return false; // Not one of the organization's customers
+      const [invoices] = await sql`
+        SELECT COUNT(*) FROM invoices WHERE customer_id = ${id}
+      `;
+      if (Number(invoices.count) > 0) return true;
+
+      const before = await customerSnapshot(sql, id);
+      await sql`DELETE FROM customers WHERE id = ${id}`;
+      await writeAudit(sql, {
+        actor,
+        action: 'delete',
+        entityType: 'customer',
+        entityId: id,
+        before,
+        after: null,
+      });
+      return false;
+    });
+    if (hasInvoices) {
+      return {
+        message:
+          'This customer still has invoices, including ones in the trash. Failed to Delete Customer.',
+      };
+    }
+  } catch (error) {
+    console.error('Database Error:', error);
+    return { message: 'Database Error: Failed to Delete Customer.' };
+  }
+
+  revalidatePath('/dashboard/customers');
+  return {};
+}
+
+// Type definition for the state of a CSV import. A preview echoes the
+// uploaded file back so the same rows can be committed without re-uploading.
+export type ImportState = {
+  csv?: string;
+  valid?: ImportRow[];
+  invalid?: ImportRow[];
+  message?: string | null;
+};
+
+// Columns an import file must have; other invoice columns are optional
+const importColumns: Record<ImportType, string[]> = {
+  customers: ['name', 'email', 'image_url'],
+  invoices: [
+    'customer_email',
+    'date',
+    'status',
+    'description',
+    'quantity',
+    'unit_price',
+  ],
+};
+
+// CSV column names for the schema fields, used to label validation errors
+const importFieldColumns: Record<string, string> = {
+  imageUrl: 'image_url',
+  customerId: 'customer_email',
+  items: 'line items',
+  taxRate: 'tax_rate',
+  paymentTerms: 'payment_terms',
+};
+
+function importErrors(error: z.ZodError) {
+  return Object.entries(error.flatten().fieldErrors).flatMap(
+    ([field, messages]) =>
+      Array.from(new Set(messages)).map(
+        (message) => `${importFieldColumns[field] ?? field}: ${message}`,
+      ),
+  );
+}
+
+// A validated import row, with the insert that commits it if it is valid.
+// The insert adds the row to the actor's organization, and records it in the
+// audit log as theirs.
+type ImportResult = {
+  report: ImportRow;
+  insert?: (sql: postgres.TransactionSql, actor: Actor) => Promise<void>;
+};
+
+// Imported invoices keep their own date, so it must be a real one
+const ImportInvoice = FormSchema.omit({ id: true }).extend({
+  date: z.string().date('Please enter dates as YYYY-MM-DD.'),
+});
+
+// Emails as the customer form schema stores them, so imported rows are
+// looked up by the same value they would be saved with
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+// Validates customer rows with the customer form schema, and rejects emails
+// that are already taken in the organization or repeated within the file
+async function validateCustomerImport(
+  records: CsvRecord[],
+  organizationId: string | null,
+): Promise<ImportResult[]> {
+  const emails = records.map((record) => normalizeEmail(record.values.email));
+  const existing = await sql<{ email: string }[]>`
+    SELECT email FROM customers
+    WHERE organization_id = ${organizationId} AND email IN ${sql(emails)}
+  `;
+  const taken = new Set(existing.map((customer) => customer.email));
+
+  return records.map((record, i) => {
+    const validatedFields = CreateCustomer.safeParse({
+      name: record.values.name,
+      email: emails[i],
+      imageUrl: record.values.image_url,
+    });
+    const report: ImportRow = {
+      rows: [record.row],
+      summary: `${record.values.name} <${emails[i]}>`,
+      errors: validatedFields.success ? [] : importErrors(validatedFields.error),
+    };
+    if (!validatedFields.success) return { report };
+
+    const { name, email, imageUrl } = validatedFields.data;
+    if (taken.has(email)) {
+      report.errors.push(`email: ${emailTakenState.errors!.email![0]}`);
+      return { report };
+    }
+    taken.add(email); // Later rows with the same email are duplicates
+    return {
+      report,
+      insert: async (sql, actor) => {
+        const [customer] = await sql`
+          INSERT INTO customers (organization_id, name, email, image_url)
+          VALUES (${actor.organizationId}, ${name}, ${email}, ${imageUrl})
+          RETURNING id
+        `;
+        await writeAudit(sql, {
+          actor,
+          action: 'create',
+          entityType: 'customer',
+          entityId: customer.id,
+          before: null,
+          after: await customerSnapshot(sql, customer.id),
+        });
+      },
+    };
+  });
+}
+
+// Validates invoice rows with the invoice form schema. Rows that share a
+// value in the optional "invoice" column are line items of one invoice, which
+// takes its other fields from the first of them. Customers are looked up by
+// email within the organization.
+async function validateInvoiceImport(
+  records: CsvRecord[],
+  organizationId: string | null,
+): Promise<ImportResult[]> {
+  const groups = new Map<string, CsvRecord[]>();
+  records.forEach((record) => {
+    const key = record.values.invoice || `row ${record.row}`;
+    groups.set(key, [...(groups.get(key) ?? []), record]);
+  });
+
+  const emails = records.map((record) =>
+    normalizeEmail(record.values.customer_email),
+  );
+  const customers = await sql<{ id: string; email: string }[]>`
+    SELECT id, email FROM customers
+    WHERE organization_id = ${organizationId} AND email IN ${sql(emails)}
+  `;
+  const customerIds = new Map(
+    customers.map((customer) => [customer.email, customer.id]),
+  );
+
+  return Array.from(groups.values()).map((group) => {
+    const { values } = group[0];
+    const customerEmail = normalizeEmail(values.customer_email);
+    const customerId = customerIds.get(customerEmail);
+    const validatedFields = ImportInvoice.safeParse({
+      customerId: customerId ?? '',
+      items: group.map((record) => ({
+        description: record.values.description,
+        quantity: record.values.quantity,
+        unitPrice: record.values.unit_price,
+      })),
+      status: values.status,
+      date: values.date,
+      currency: values.currency || BASE_CURRENCY,
+      taxRate: values.tax_rate,
+      discount: values.discount,
+      paymentTerms: values.payment_terms,
+    });
+    const report: ImportRow = {
+      rows: group.map((record) => record.row),
+      summary: `${customerEmail}, ${values.date}`,
+      errors: validatedFields.success ? [] : importErrors(validatedFields.error),
+    };
+    if (!customerId) {
+      report.errors.unshift('customer_email: No customer has this email.');
+    }
+    if (!validatedFields.success || !customerId) return { report };
+
+    const { items, status, date, currency, taxRate, discount, paymentTerms } =
+      validatedFields.data;
+    const { pricedItems, discountInCents, taxableInCents, amountInCents } =
+      priceLineItems(items, discount, taxRate);
+    if (taxableInCents < 0) {
+      report.errors.push(`discount: ${discountTooLargeState.errors!.discount![0]}`);
+      return { report };
+    }
+    report.summary += `, ${formatCurrency(amountInCents, currency)}`;
+    const paidAt = status === 'paid' ? date : null; // Assume imported paid invoices were paid on their date
+
+    return {
+      report,
+      insert: async (sql, actor) => {
+        const [invoice] = await sql`
+          INSERT INTO invoices (
+            organization_id, customer_id, amount, status, date, paid_at,
+            payment_terms, due_date, currency, tax_rate, discount
+          )
+          VALUES (
+            ${actor.organizationId}, ${customerId}, ${amountInCents}, ${status},
+            ${date}, ${paidAt}, ${paymentTerms}, ${date}::date + ${paymentTerms}::int,
+            ${currency}, ${taxRate}, ${discountInCents}
+          )
+          RETURNING id
+        `;
+        await sql`
+          INSERT INTO invoice_items ${sql(
+            pricedItems.map((item) => ({ ...item, invoice_id: invoice.id })),
+          )}
+        `;
+        if (status === 'paid') await payOutstandingBalance(sql, invoice.id, date);
+        await writeAudit(sql, {
+          actor,
+          action: 'create',
+          entityType: 'invoice',
+          entityId: invoice.id,
+          before: null,
+          after: await invoiceSnapshot(sql, invoice.id),
+        });
+      },
+    };
+  });
+}
+
+// Parses an uploaded CSV of invoices or customers. A preview returns a report
+// of valid and invalid rows; a commit inserts the valid rows in one transaction.
+export async function importCsv(
+  type: ImportType,
+  prevState: ImportState,
+  formData: FormData,
+) {
+  const actor = await getActor();
+  if (!can(actor.role, type === 'customers' ? 'manage_customers' : 'manage_invoices')) {
+    return { message: `Not Authorized: Failed to Import ${type}.` };
+  }
+
+  const file = formData.get('file');
+  const csv =
+    formData.get('intent') === 'commit'
+      ? String(formData.get('csv') ?? '')
+      : file instanceof File
+        ? await file.text()
+        : '';
+  const records = parseCsvRecords(csv);
+  if (records.length === 0) {
+    return { message: 'Please choose a CSV file with a header row and data.' };
+  }
+
+  const missing = importColumns[type].filter(
+    (column) => !(column in records[0].values),
+  );
+  if (missing.length > 0) {
+    return { message: `Missing columns: ${missing.join(', ')}.` };
+  }
+
+  let results: ImportResult[];
+  try {
+    results =
+      type === 'customers'
+        ? await validateCustomerImport(records, actor.organizationId)
+        : await validateInvoiceImport(records, actor.organizationId);
+  } catch (error) {
+    console.error('Database Error:', error);
+    return { message: 'Database Error: Failed to Validate Import.' };
+  }
+  const valid = results.filter((result) => result.insert);
+  const invalid = results.filter((result) => !result.insert);
+
+  if (formData.get('intent') !== 'commit') {
+    return {
+      csv,
+      valid: valid.map((result) => result.report),
+      invalid: invalid.map((result) => result.report),
+      message: `${valid.length} ${type} ready to import, ${invalid.length} with errors.`,
+    };
+  }
+  if (valid.length === 0) {
+    return { message: `No valid ${type} to import.` };
+  }
+
+  // All valid rows are imported together, or none of them are
+  try {
+    await sql.begin(async (sql) => {
+      for (const result of valid) {
+        await result.insert!(sql, actor);
+      }
+    });
+  } catch (error) {
+    console.error('Database Error:', error);
+    return { message: `Database Error: Failed to Import ${type}.` };
+  }
+
+  revalidatePath('/dashboard/invoices');
+  revalidatePath('/dashboard/customers', 'layout');
+  redirect(`/dashboard/${type}`);
+}
+
+// Defines a schema for dashboard users using Zod. Passwords follow the
+// same minimum length the sign-in form accepts.
+const UserFormSchema = z.object({
+  id: z.string(),
+  name: z
+    .string({ invalid_type_error: 'Please enter a name.' })
+    .trim()
+    .min(1, { message: 'Please enter a name.' }),
+  email: z
+    .string({ invalid_type_error: 'Please enter an email address.' })
+    .trim()
+    .toLowerCase()
+    .email({ message: 'Please enter a valid email address.' }),
+  role: z.enum(roles, { invalid_type_error: 'Please select a role.' }),
+  password: z
+    .string({ invalid_type_error: 'Please enter a password.' })
+    .min(6, { message: 'Please enter a password of at least 6 characters.' }),
+});
+
+const InviteUser = UserFormSchema.omit({ id: true });
+const InviteMember = UserFormSchema.pick({ email: true, role: true });
+const UpdateUser = UserFormSchema.omit({ id: true, password: true });
+const ResetPassword = UserFormSchema.pick({ password: true });
+
+// Type definition for the state object used in user form actions
+export type UserState = {
+  errors?: {
+    name?: string[];
+    email?: string[];
+    role?: string[];
+    password?: string[];
+  };
+  message?: string | null;
+};
+
+// Returns true if another user already signs in with this email address
+async function isUserEmailTaken(email: string, excludeId?: string) {
+  const data = excludeId
+    ? await sql`SELECT id FROM users WHERE email = ${email} AND id <> ${excludeId}`
+    : await sql`SELECT id FROM users WHERE email = ${email}`;
+  return data.length > 0;
+}
+
+const userEmailTakenState: UserState = {
+  errors: { email: ['A user with this email already exists.'] },
+};
+
+// Admins can only manage the members of their own organization. Returns how
+// many other organizations the user belongs to.
+async function checkMembership(
+  sql: postgres.TransactionSql,
+  userId: string,
+  organizationId: string | null,
+) {
+  const [membership] = await sql<{ other_organizations: number }[]>`
+    SELECT (
+      SELECT COUNT(*)::int FROM memberships AS others
+      WHERE others.user_id = memberships.user_id
+        AND others.organization_id <> memberships.organization_id
+    ) AS other_organizations
+    FROM memberships
+    WHERE user_id = ${userId} AND organization_id = ${organizationId}
+  `;
+  if (!membership) throw new Error(`User ${userId} is not in this organization.`);
+  return membership.other_organizations;
+}
+
+// A user who also belongs to another organization signs in there too, so
+// their name, email, password and whether they can sign in at all are not
+// for one organization's admins to change
+const sharedUserMessage = 'They also belong to another organization.';
+
+// Adds a user to the admin's organization. New users sign in with the
+// password the admin gives them; someone who already has an account joins
+// with the role picked here and keeps their own name and password.
+export async function inviteUser(
+  prevState: UserState,
+  formData: FormData,
+): Promise<UserState> {
+  const actor = await getActor();
+  if (!can(actor.role, 'manage_users')) {
+    return { message: 'Not Authorized: Failed to Invite User.' };
+  }
+
+  const fields = {
+    name: formData.get('name'),
+    email: formData.get('email'),
+    role: formData.get('role'),
+    password: formData.get('password'),
+  };
+  const validatedMember = InviteMember.safeParse(fields);
+
+  try {
+    const [existingUser] = validatedMember.success
+      ? await sql`SELECT id FROM users WHERE email = ${validatedMember.data.email}`
+      : [];
+    if (existingUser && validatedMember.success) {
+      const { role } = validatedMember.data;
+      const added = await sql.begin(async (sql) => {
+        const inserted = await sql`
+          INSERT INTO memberships (user_id, organization_id, role)
+          VALUES (${existingUser.id}, ${actor.organizationId}, ${role})
+          ON CONFLICT (user_id, organization_id) DO NOTHING
+          RETURNING user_id
+        `;
+        if (inserted.length === 0) return false;
+        await writeAudit(sql, {
+          actor,
+          action: 'create',
+          entityType: 'user',
+          entityId: existingUser.id,
+          before: null,
+          after: await userSnapshot(sql, existingUser.id, actor.organizationId),
+        });
+        return true;
+      });
+      if (!added) {
+        return {
+          errors: { email: ['This user is already a member.'] },
+          message: 'Duplicate Email. Failed to Invite User.',
+        };
+      }
+    } else {
+      const validatedFields = InviteUser.safeParse(fields);
+      if (!validatedFields.success) {
+        return {
+          errors: validatedFields.error.flatten().fieldErrors,
+          message: 'Missing Fields. Failed to Invite User.',
+        };
+      }
+
+      const { name, email, role, password } = validatedFields.data;
+      const hashedPassword = await bcrypt.hash(password, 10); // Hashed as in the seed
+      await sql.begin(async (sql) => {
+        const [user] = await sql`
+          INSERT INTO users (name, email, password, password_changed_at)
+          VALUES (${name}, ${email}, ${hashedPassword}, NOW())
+          RETURNING id
+        `;
+        await sql`
+          INSERT INTO memberships (user_id, organization_id, role)
+          VALUES (${user.id}, ${actor.organizationId}, ${role})
+        `;
+        await writeAudit(sql, {
+          actor,
+          action: 'create',
+          entityType: 'user',
+          entityId: user.id,
+          before: null,
+          after: await userSnapshot(sql, user.id, actor.organizationId),
+        });
+      });
+    }
+  } catch (error) {
+    console.error('Database Error:', error);
+    return { message: 'Database Error: Failed to Invite User.' };
+  }
+
+  revalidatePath('/dashboard/users');
+  redirect('/dashboard/users');
+}
+
+// Updates a user's details, and their role in this organization. Admins
+// can't change their own role, so there is always someone left who can
+// manage users.
+export async function updateUser(
+  id: string,
+  prevState: UserState,
+  formData: FormData,
+): Promise<UserState> {
+  const actor = await getActor();
+  if (!can(actor.role, 'manage_users')) {
+    return { message: 'Not Authorized: Failed to Update User.' };
+  }
+
+  const validatedFields = UpdateUser.safeParse({
+    name: formData.get('name'),
+    email: formData.get('email'),
+    role: formData.get('role'),
+  });
+
+  if (!validatedFields.success) {
+    return {
+      errors: validatedFields.error.flatten().fieldErrors,
+      message: 'Missing Fields. Failed to Update User.',
+    };
+  }
+
+  const { name, email, role } = validatedFields.data;
+  if (id === actor.id && role !== actor.role) {
+    return {
+      errors: { role: ['You cannot change your own role.'] },
+      message: 'Invalid Role. Failed to Update User.',
+    };
+  }
+
+  try {
+    if (await isUserEmailTaken(email, id)) {
+      return {
+        ...userEmailTakenState,
+        message: 'Duplicate Email. Failed to Update User.',
+      };
+    }
+
+    const refused = await sql.begin(async (sql) => {
+      const otherOrganizations = await checkMembership(sql, id, actor.organizationId);
+      const [user] = await sql`SELECT name, email FROM users WHERE id = ${id}`;
+      if (otherOrganizations > 0 && (user.name !== name || user.email !== email)) {
+        return true;
+      }
+      const before = await userSnapshot(sql, id, actor.organizationId);
+      await sql`
+        UPDATE users SET name = ${name}, email = ${email} WHERE id = ${id}
+      `;
+      await sql`
+        UPDATE memberships SET role = ${role}
+        WHERE user_id = ${id} AND organization_id = ${actor.organizationId}
+      `;
+      await writeAudit(sql, {
+        actor,
+        action: 'update',
+        entityType: 'user',
+        entityId: id,
+        before,
+        after: await userSnapshot(sql, id, actor.organizationId),
+      });
+      return false;
+    });
+    if (refused) {
+      return {
+        message: `${sharedUserMessage} Only they can change their name and email. Failed to Update User.`,
+      };
+    }
+  } catch (error) {
+    console.error('Database Error:', error);
+    return { message: 'Database Error: Failed to Update User.' };
+  }
+
+  revalidatePath('/dashboard/users');
+  redirect('/dashboard/users');
+}
+
+// Sets a new password for a user, for when they have forgotten theirs. Users
+// who also belong to another organization reset their own.
+export async function resetUserPassword(
+  id: string,
+  prevState: UserState,
+  formData: FormData,
+): Promise<UserState> {
+  const actor = await getActor();
+  if (!can(actor.role, 'manage_users')) {
+    return { message: 'Not Authorized: Failed to Reset Password.' };
+  }
+
+  const validatedFields = ResetPassword.safeParse({
+    password: formData.get('password'),
+  });
+
+  if (!validatedFields.success) {
+    return {
+      errors: validatedFields.error.flatten().fieldErrors,
+      message: 'Missing Fields. Failed to Reset Password.',
+    };
+  }
+
+  const hashedPassword = await bcrypt.hash(validatedFields.data.password, 10);
+
+  try {
+    const refused = await sql.begin(async (sql) => {
+      if ((await checkMembership(sql, id, actor.organizationId)) > 0) return true;
+      const before = await userSnapshot(sql, id, actor.organizationId);
+      await sql`
+        UPDATE users
+        SET password = ${hashedPassword}, password_changed_at = NOW()
+        WHERE id = ${id}
+      `;
+      await writeAudit(sql, {
+        actor,
+        action: 'update',
+        entityType: 'user',
+        entityId: id,
+        before,
+        after: await userSnapshot(sql, id, actor.organizationId),
+      });
+      return false;
+    });
+    if (refused) {
+      return {
+        message: `${sharedUserMessage} Only they can change their password. Failed to Reset Password.`,
+      };
+    }
+  } catch (error) {
+    console.error('Database Error:', error);
+    return { message: 'Database Error: Failed to Reset Password.' };
+  }
+
+  revalidatePath('/dashboard/users');
+  redirect('/dashboard/users');
+}
+
+// Stops a user from signing in, without losing who they were in the audit
+// log. Admins can't deactivate themselves, nor users who also belong to
+// another organization, who can only be removed from this one.
+export async function deactivateUser(id: string): Promise<ConfirmState> {
+  const actor = await getActor();
+  if (!can(actor.role, 'manage_users')) {
+    return { message: 'Not Authorized: Failed to Deactivate User.' };
+  }
+  if (id === actor.id) {
+    return { message: 'You cannot deactivate your own account.' };
+  }
+
+  try {
+    const refused = await sql.begin(async (sql) => {
+      if ((await checkMembership(sql, id, actor.organizationId)) > 0) return true;
+      const before = await userSnapshot(sql, id, actor.organizationId);
+      await sql`
+        UPDATE users
+        SET deactivated_at = NOW()
+        WHERE id = ${id} AND deactivated_at IS NULL
+      `;
+      await writeAudit(sql, {
+        actor,
+        action: 'update',
+        entityType: 'user',
+        entityId: id,
+        before,
+        after: await userSnapshot(sql, id, actor.organizationId),
+      });
+      return false;
+    });
+    if (refused) {
+      return {
+        message: `${sharedUserMessage} Remove them from this organization instead. Failed to Deactivate User.`,
+      };
+    }
+  } catch (error) {
+    console.error('Database Error:', error);
+    return { message: 'Database Error: Failed to Deactivate User.' };
+  }
+
+  revalidatePath('/dashboard/users');
+  return {};
+}
+
+// Lets a deactivated user sign in again
+export async function reactivateUser(id: string): Promise<ConfirmState> {
+  const actor = await getActor();
+  if (!can(actor.role, 'manage_users')) {
+    return { message: 'Not Authorized: Failed to Reactivate User.' };
+  }
+
+  try {
+    const refused = await sql.begin(async (sql) => {
+      if ((await checkMembership(sql, id, actor.organizationId)) > 0) return true;
+      const before = await userSnapshot(sql, id, actor.organizationId);
+      await sql`UPDATE users SET deactivated_at = NULL WHERE id = ${id}`;
+      await writeAudit(sql, {
+        actor,
+        action: 'update',
+        entityType: 'user',
+        entityId: id,
+        before,
+        after: await userSnapshot(sql, id, actor.organizationId),
+      });
+      return false;
+    });
+    if (refused) {
+      return { message: `${sharedUserMessage} Failed to Reactivate User.` };
+    }
+  } catch (error) {
+    console.error('Database Error:', error);
+    return { message: 'Database Error: Failed to Reactivate User.' };
+  }
+
+  revalidatePath('/dashboard/users');
+  return {};
+}
+
+// Takes a user who also belongs to another organization out of this one. They
+// can still sign in to the others. Users who belong only here are deactivated
+// instead, so they keep an organization to sign in to if they are reactivated.
+export async function removeMember(id: string): Promise<ConfirmState> {
+  const actor = await getActor();
+  if (!can(actor.role, 'manage_users')) {
+    return { message: 'Not Authorized: Failed to Remove User.' };
+  }
+  if (id === actor.id) {
+    return { message: 'You cannot remove yourself.' };
+  }
+
+  try {
+    const removed = await sql.begin(async (sql) => {
+      if ((await checkMembership(sql, id, actor.organizationId)) === 0) return false;
+      const before = await userSnapshot(sql, id, actor.organizationId);
+      await sql`
+        DELETE FROM memberships
+        WHERE user_id = ${id} AND organization_id = ${actor.organizationId}
+      `;
+      await writeAudit(sql, {
+        actor,
+        action: 'delete',
+        entityType: 'user',
+        entityId: id,
+        before,
+        after: null,
+      });
+      return true;
+    });
+    if (!removed) {
+      return {
+        message: 'They belong to no other organization. Deactivate them instead. Failed to Remove User.',
+      };
+    }
+  } catch (error) {
+    console.error('Database Error:', error);
+    return { message: 'Database Error: Failed to Remove User.' };
+  }
+
+  revalidatePath('/dashboard/users');
+  return {};
+}
+
+// A new password, typed twice to catch typos
+const NewPasswordSchema = z
+  .object({
+    password: UserFormSchema.shape.password,
+    confirmPassword: z.string({ invalid_type_error: 'Please confirm the password.' }),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: 'The passwords do not match.',
+    path: ['confirmPassword'],
+  });
+
+const ChangePassword = z
+  .object({
+    currentPassword: z
+      .string({ invalid_type_error: 'Please enter your current password.' })
+      .min(1, { message: 'Please enter your current password.' }),
+  })
+  .and(NewPasswordSchema);
+
+// Type definition for the state of the password forms
+export type PasswordState = {
+  errors?: {
+    email?: string[];
+    currentPassword?: string[];
+    password?: string[];
+    confirmPassword?: string[];
+  };
+  message?: string | null;
+  success?: boolean;
+};
+
+const PASSWORD_RESET_MINUTES = 60; // How long a reset link works for
+
+// Reset links carry a random token; only its hash is stored
+function hashResetToken(token: string) {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// Emails a single-use link to set a new password. The reply is the same
+// whether or not the email belongs to a user, and whether or not the email
+// could be sent, so it can't be used to find out who has an account.
+// Requests are rate limited like sign-ins.
+export async function requestPasswordReset(
+  prevState: PasswordState,
+  formData: FormData,
+): Promise<PasswordState> {
+  const validatedFields = z
+    .object({ email: UserFormSchema.shape.email })
+    .safeParse({ email: formData.get('email') });
+
+  if (!validatedFields.success) {
+    return {
+      errors: validatedFields.error.flatten().fieldErrors,
+      message: 'Missing Fields. Failed to Send Reset Link.',
+    };
+  }
+
+  const { email } = validatedFields.data;
+  const token = randomBytes(32).toString('base64url');
+  const ip = clientIp(await headers());
+
+  try {
+    const lockedUntil = await fetchResetLockedUntil(email, ip);
+    if (lockedUntil) {
+      return { message: lockoutMessage(lockedUntil, 'Too many reset requests.') };
+    }
+    await recordResetRequest(email, ip);
+  } catch (error) {
+    console.error('Database Error:', error);
+    return { message: 'Something went wrong. Failed to Send Reset Link.' };
+  }
+
+  try {
+    const [user] = await sql`
+      SELECT id FROM users WHERE email = ${email} AND deactivated_at IS NULL
+    `;
+    if (user) {
+      await sql.begin(async (sql) => {
+        // Only the latest link works
+        await sql`
+          DELETE FROM password_reset_tokens
+          WHERE user_id = ${user.id} AND used_at IS NULL
+        `;
+        await sql`
+          INSERT INTO password_reset_tokens (user_id, token_hash, expires_at)
+          VALUES (
+            ${user.id},
+            ${hashResetToken(token)},
+            NOW() + make_interval(mins => ${PASSWORD_RESET_MINUTES})
+          )
+        `;
+      });
+      // Linked from the configured site address, never the request's own
+      // headers, which a sender could forge to point the link elsewhere
+      if (!process.env.AUTH_URL) throw new Error('AUTH_URL is not set.');
+      const link = new URL(
+        `/reset-password?token=${token}`,
+        process.env.AUTH_URL,
+      );
+      await sendMail({
+        to: email,
+        subject: 'Reset your password',
+        text: [
+          'Someone asked to reset the password for your account.',
+          `To choose a new password, open this link within ${PASSWORD_RESET_MINUTES} minutes:`,
+          '',
+          link.toString(),
+          '',
+          'If it was not you, you can ignore this email.',
+        ].join('\n'),
+      });
+    }
+  } catch (error) {
+    console.error('Password Reset Error:', error);
+  }
+
+  return {
+    message: `If ${email} has an account, a link to reset its password is on its way.`,
+    success: true,
+  };
+}
+
+// Sets a new password from a reset link, which then stops working
+export async function resetPassword(
+  token: string,
+  prevState: PasswordState,
+  formData: FormData,
+): Promise<PasswordState> {
+  const validatedFields = NewPasswordSchema.safeParse({
+    password: formData.get('password'),
+    confirmPassword: formData.get('confirmPassword'),
+  });
+
+  if (!validatedFields.success) {
+    return {
+      errors: validatedFields.error.flatten().fieldErrors,
+      message: 'Missing Fields. Failed to Reset Password.',
+    };
+  }
+
+  const hashedPassword = await bcrypt.hash(validatedFields.data.password, 10);
+
+  try {
+    const email = await sql.begin(async (sql) => {
+      const [user] = await sql`
+        SELECT users.id, users.email
+        FROM password_reset_tokens
+        JOIN users ON users.id = password_reset_tokens.user_id
+        WHERE password_reset_tokens.token_hash = ${hashResetToken(token)}
+          AND password_reset_tokens.used_at IS NULL
+          AND password_reset_tokens.expires_at > NOW()
+          AND users.deactivated_at IS NULL
+        FOR UPDATE OF password_reset_tokens
+      `;
+      if (!user) return null;
+
+      const before = await userSnapshot(sql, user.id, null);
+      await sql`
+        UPDATE password_reset_tokens
+        SET used_at = NOW()
+        WHERE token_hash = ${hashResetToken(token)}
+      `;
+      await sql`
+        UPDATE users
+        SET password = ${hashedPassword}, password_changed_at = NOW()
+        WHERE id = ${user.id}
+      `;
+      await writeAudit(sql, {
+        // The user resets their own password, outside of any one organization
+        actor: { id: user.id, email: user.email, role: null, organizationId: null },
+        action: 'update',
+        entityType: 'user',
+        entityId: user.id,
+        before,
+        after: await userSnapshot(sql, user.id, null),
+      });
+      return user.email as string;
+    });
+    if (!email) {
+      return {
+        message: 'This reset link is invalid or has expired. Please request a new one.',
+      };
+    }
+    await clearLoginFailures(email); // A new password deserves a fresh set of attempts
+  } catch (error) {
+    console.error('Database Error:', error);
+    return { message: 'Database Error: Failed to Reset Password.' };
+  }
+
+  redirect('/login?passwordReset=true');
+}
+
+// Changes the signed-in user's own password, once they have proven they
+// know the current one. Every session from before it ends, this one included,
+// so one taken along with the old password goes with it.
+export async function changePassword(
+  prevState: PasswordState,
+  formData: FormData,
+): Promise<PasswordState> {
+  const actor = await getActor();
+  if (!actor.id) {
+    return { message: 'Not Authorized: Failed to Change Password.' };
+  }
+
+  const validatedFields = ChangePassword.safeParse({
+    currentPassword: formData.get('currentPassword'),
+    password: formData.get('password'),
+    confirmPassword: formData.get('confirmPassword'),
+  });
+
+  if (!validatedFields.success) {
+    return {
+      errors: validatedFields.error.flatten().fieldErrors,
+      message: 'Missing Fields. Failed to Change Password.',
+    };
+  }
+
+  const { currentPassword, password } = validatedFields.data;
+
+  try {
+    const [user] = await sql`SELECT password FROM users WHERE id = ${actor.id}`;
+    const passwordsMatch =
+      !!user && (await bcrypt.compare(currentPassword, user.password));
+    if (!passwordsMatch) {
+      return {
+        errors: { currentPassword: ['Your current password is not correct.'] },
+        message: 'Invalid Password. Failed to Change Password.',
+      };
+    }
+
+    const hashedPassword = await bcrypt.hash(password, 10);
+    await sql.begin(async (sql) => {
+      const before = await userSnapshot(sql, actor.id!, actor.organizationId);
+      await sql`
+        UPDATE users
+        SET password = ${hashedPassword}, password_changed_at = NOW()
+        WHERE id = ${actor.id}
+      `;
+      await writeAudit(sql, {
+        actor,
+        action: 'update',
+        entityType: 'user',
+        entityId: actor.id!,
+        before,
+        after: await userSnapshot(sql, actor.id!, actor.organizationId),
+      });
+    });
+  } catch (error) {
+    console.error('Database Error:', error);
+    return { message: 'Database Error: Failed to Change Password.' };
+  }
+
+  return {
+    message: 'Your password has been changed. Please log in again with it.',
+    success: true,
+  };
+}
+
+// Type definition for the state of the two-factor forms. Recovery codes are
+// only ever returned once, right after they are made.
+export type TwoFactorState = {
+  errors?: {
+    code?: string[];
+    password?: string[];
+  };
+  message?: string | null;
+  recoveryCodes?: string[];
+};
+
+const EnableTwoFactor = z.object({
+  secret: z.string().regex(/^[A-Z2-7]{32}$/, { message: 'Invalid secret.' }),
+  code: z.string().trim().min(1, { message: 'Please enter the code from your app.' }),
+});
+
+// Turns on two-factor sign-in with the secret shown on the enrollment page,
+// once a code from it proves the authenticator app was set up
+export async function enableTwoFactor(
+  prevState: TwoFactorState,
+  formData: FormData,
+): Promise<TwoFactorState> {
+  const actor = await getActor();
+  if (!actor.id) {
+    return { message: 'Not Authorized: Failed to Enable Two-Factor Sign-In.' };
+  }
+
+  const validatedFields = EnableTwoFactor.safeParse({
+    secret: formData.get('secret'),
+    code: formData.get('code'),
+  });
+
+  if (!validatedFields.success) {
+    return {
+      errors: validatedFields.error.flatten().fieldErrors,
+      message: 'Missing Fields. Failed to Enable Two-Factor Sign-In.',
+    };
+  }
+
+  const { secret, code } = validatedFields.data;
+  const step = verifyTotp(secret, code);
+  if (step === null) {
+    return {
+      errors: { code: ['That code is not correct. Please try the next one.'] },
+      message: 'Invalid Code. Failed to Enable Two-Factor Sign-In.',
+    };
+  }
+
+  let recoveryCodes: string[];
+  try {
+    recoveryCodes = await sql.begin(async (sql) => {
+      const before = await userSnapshot(sql, actor.id!, actor.organizationId);
+      const enabled = await sql`
+        UPDATE users
+        SET totp_secret = ${secret}, totp_enabled_at = NOW(), totp_last_step = ${step}
+        WHERE id = ${actor.id} AND totp_enabled_at IS NULL
+        RETURNING id
+      `;
+      if (enabled.length === 0) {
+        throw new Error('Two-factor sign-in is already on.');
+      }
+      const codes = await replaceRecoveryCodes(sql, actor.id!);
+      await writeAudit(sql, {
+        actor,
+        action: 'update',
+        entityType: 'user',
+        entityId: actor.id!,
+        before,
+        after: await userSnapshot(sql, actor.id!, actor.organizationId),
+      });
+      return codes;
+    });
+  } catch (error) {
+    console.error('Database Error:', error);
+    return { message: 'Database Error: Failed to Enable Two-Factor Sign-In.' };
+  }
+
+  // The account page is rendered fresh on every visit, and revalidating here
+  // would re-render this page, which turns away users who have it on
+  return { message: 'Two-factor sign-in is on.', recoveryCodes };
+}
+
+// Turns off two-factor sign-in, which takes the user's password so that a
+// session left open can't do it
+export async function disableTwoFactor(
+  prevState: TwoFactorState,
+  formData: FormData,
+): Promise<TwoFactorState> {
+  const actor = await getActor();
+  if (!actor.id) {
+    return { message: 'Not Authorized: Failed to Disable Two-Factor Sign-In.' };
+  }
+
+  const validatedFields = z
+    .object({
+      password: z
+        .string({ invalid_type_error: 'Please enter your password.' })
+        .min(1, { message: 'Please enter your password.' }),
+    })
+    .safeParse({ password: formData.get('password') });
+
+  if (!validatedFields.success) {
+    return {
+      errors: validatedFields.error.flatten().fieldErrors,
+      message: 'Missing Fields. Failed to Disable Two-Factor Sign-In.',
+    };
+  }
+
+  try {
+    const [user] = await sql`SELECT password FROM users WHERE id = ${actor.id}`;
+    const passwordsMatch =
+      !!user &&
+      (await bcrypt.compare(validatedFields.data.password, user.password));
+    if (!passwordsMatch) {
+      return {
+        errors: { password: ['Your password is not correct.'] },
+        message: 'Invalid Password. Failed to Disable Two-Factor Sign-In.',
+      };
+    }
+
+    await sql.begin(async (sql) => {
+      const before = await userSnapshot(sql, actor.id!, actor.organizationId);
+      await sql`
+        UPDATE users
+        SET totp_secret = NULL, totp_enabled_at = NULL, totp_last_step = NULL
+        WHERE id = ${actor.id}
+      `;
+      await sql`DELETE FROM two_factor_recovery_codes WHERE user_id = ${actor.id}`;
+      await writeAudit(sql, {
+        actor,
+        action: 'update',
+        entityType: 'user',
+        entityId: actor.id!,
+        before,
+        after: await userSnapshot(sql, actor.id!, actor.organizationId),
+      });
+    });
+  } catch (error) {
+    console.error('Database Error:', error);
+    return { message: 'Database Error: Failed to Disable Two-Factor Sign-In.' };
+  }
+
+  revalidatePath('/dashboard/account');
+  return { message: 'Two-factor sign-in is off.' };
+}
+
+// How long a locked out sign-in has to wait, rounded up to whole minutes
+function lockoutMessage(
+  lockedUntil: Date,
+  reason = 'Too many failed attempts.',
+) {
+  const minutes = Math.max(
+    1,
+    Math.ceil((lockedUntil.getTime() - Date.now()) / 60000),
+  );
+  return `${reason} Please try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`;
+}
+
+// The second login step. Wrong codes count towards the same lockout as wrong
+// passwords, so the six digits can't be guessed one after another.
+export async function verifyTwoFactorLogin(
+  prevState: LoginState,
+  formData: FormData,
+): Promise<LoginState> {
+  const email = (await auth())?.user?.email;
+  if (!email) return { message: 'Your session has ended. Please log in again.' };
+
+  const code = formData.get('code');
+  if (typeof code !== 'string' || !code.trim()) {
+    return { message: 'Please enter a code.' };
+  }
+  const ip = clientIp(await headers());
+
+  try {
+    const lockedUntil = await fetchLockedUntil(email, ip);
+    if (lockedUntil) return { message: lockoutMessage(lockedUntil), locked: true };
+
+    if (!(await verifyTwoFactor(code.trim()))) {
+      await recordLoginFailure(email, ip);
+      return { message: 'Invalid code.' };
+    }
+    await clearLoginFailures(email);
+  } catch (error) {
+    console.error('Database Error:', error);
+    return { message: 'Something went wrong.' };
+  }
+
+  // Only back into the dashboard, never off to another site
+  const redirectTo = formData.get('redirectTo');
+  redirect(
+    typeof redirectTo === 'string' && redirectTo.startsWith('/dashboard')
+      ? redirectTo
+      : '/dashboard',
+  );
+}
+
+// Switches the signed-in user to another organization they belong to. The
+// page they were on may show rows the new one doesn't have, so they start
+// again from the dashboard.
+export async function switchOrganization(formData: FormData) {
+  const organizationId = z
+    .string()
+    .uuid()
+    .safeParse(formData.get('organizationId'));
+  if (
+    !organizationId.success ||
+    !(await switchActiveOrganization(organizationId.data))
+  ) {
+    throw new Error('Failed to switch organization.');
+  }
+
+  revalidatePath('/dashboard', 'layout');
+  redirect('/dashboard');
+}
+
+// Type definition for the state of the login form. Lockouts are told apart
+// from wrong passwords, as trying again won't help until they end.
+export type LoginState =
+  | {
+      message: string;
+      locked?: boolean;
+    }
+  | undefined;
+
+export async function authenticate(
+  prevState: LoginState,
+  formData: FormData,
+): Promise<LoginState> {
   try {
     await signIn('credentials', formData);
   } catch (error) {
+    if (error instanceof LoginLockedError) {
+      return { message: lockoutMessage(error.lockedUntil), locked: true };
+    }
     if (error instanceof AuthError) {
       switch (error.type) {
         case 'CredentialsSignin':
-          return 'Invalid credentials.';
+          return { message: 'Invalid credentials.' };
         default:
-          return 'Something went wrong.';
+          return { message: 'Something went wrong.' };
       }
     }
     throw error;
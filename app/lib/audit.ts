@@ -0,0 +1,131 @@
+import postgres from 'postgres';
+import { AuditAction, AuditChanges, AuditEntityType } from './definitions';
+import { Actor } from './session';
+
+type Snapshot = Record<string, unknown> | null;
+
+// The fields that differ between two snapshots of a row. A create has no
+// "before" and a delete no "after", so every field shows up in either.
+export function diff(before: Snapshot, after: Snapshot) {
+  const changes: AuditChanges = {};
+  const fields = new Set([
+    ...Object.keys(before ?? {}),
+    ...Object.keys(after ?? {}),
+  ]);
+  fields.forEach((field) => {
+    const from = before?.[field] ?? null;
+    const to = after?.[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { before: from, after: to };
+    }
+  });
+  return changes;
+}
+
+// Snapshots store plain JSON, so dates and numerics compare and render as text
+function toJson(row: Record<string, unknown> | undefined): Snapshot {
+  return row ? JSON.parse(JSON.stringify(row)) : null;
+}
+
+// An invoice as the audit log sees it: its columns, line items and what has been paid
+export async function invoiceSnapshot(sql: postgres.TransactionSql, id: string) {
+  const [invoice] = await sql`
+    SELECT
+      invoices.customer_id,
+      invoices.amount,
+      invoices.status,
+      invoices.date,
+      invoices.paid_at,
+      invoices.payment_terms,
+      invoices.due_date,
+      invoices.currency,
+      invoices.tax_rate,
+      invoices.discount,
+      (
+        SELECT COALESCE(SUM(payments.amount), 0)::int
+        FROM payments
+        WHERE payments.invoice_id = invoices.id
+      ) AS amount_paid,
+      (
+        SELECT json_agg(
+          json_build_object(
+            'description', description,
+            'quantity', quantity,
+            'unit_price', unit_price
+          )
+          ORDER BY position
+        )
+        FROM invoice_items
+        WHERE invoice_items.invoice_id = invoices.id
+      ) AS items
+    FROM invoices
+    WHERE invoices.id = ${id}
+  `;
+  return toJson(invoice);
+}
+
+export async function customerSnapshot(sql: postgres.TransactionSql, id: string) {
+  const [customer] = await sql`
+    SELECT name, email, image_url FROM customers WHERE id = ${id}
+  `;
+  return toJson(customer);
+}
+
+export async function paymentSnapshot(sql: postgres.TransactionSql, id: string) {
+  const [payment] = await sql`
+    SELECT invoice_id, amount, date, method, reference FROM payments WHERE id = ${id}
+  `;
+  return toJson(payment);
+}
+
+// Never the password hash or two-factor secret; a reset shows up as a new
+// password_changed_at, and two-factor sign-in as totp_enabled_at
+export async function userSnapshot(
+  sql: postgres.TransactionSql,
+  id: string,
+  organizationId: string | null,
+) {
+  const [user] = await sql`
+    SELECT
+      users.name,
+      users.email,
+      memberships.role,
+      users.deactivated_at,
+      users.password_changed_at,
+      users.totp_enabled_at
+    FROM users
+    LEFT JOIN memberships
+      ON memberships.user_id = users.id
+      AND memberships.organization_id = ${organizationId}
+    WHERE users.id = ${id}
+  `;
+  return toJson(user);
+}
+
+// Records a change in the audit log. Call it inside the transaction that
+// makes the change, so the two are committed or rolled back together.
+// Updates that change nothing are not recorded.
+export async function writeAudit(
+  sql: postgres.TransactionSql,
+  entry: {
+    actor: Actor;
+    action: AuditAction;
+    entityType: AuditEntityType;
+    entityId: string;
+    before: Snapshot;
+    after: Snapshot;
+  },
+) {
+  const changes = diff(entry.before, entry.after);
+  if (entry.action === 'update' && Object.keys(changes).length === 0) return;
+
+  await sql`
+    INSERT INTO audit_log (
+      organization_id, user_id, user_email, action, entity_type, entity_id, changes
+    )
+    VALUES (
+      ${entry.actor.organizationId}, ${entry.actor.id}, ${entry.actor.email}, ${entry.action},
+      ${entry.entityType}, ${entry.entityId}, ${sql.json(changes as postgres.JSONValue)}
+    )
+  `;
+}
@@ -0,0 +1,120 @@
+// Helpers for reading and writing CSV files (RFC 4180).
+
+export type CsvValue = string | number | null | undefined;
+
+export type CsvRecord = { row: number; values: Record<string, string> };
+
+// Quotes a cell when needed, and defuses values a spreadsheet would run as a formula
+function escapeCell(value: CsvValue) {
+  if (value === null || value === undefined) return '';
+  let cell = value.toString();
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(cell)) {
+    cell = `'${cell}`;
+  }
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+export function toCsvRow(values: CsvValue[]) {
+  return `${values.map(escapeCell).join(',')}\r\n`;
+}
+
+// Streams a header row followed by each batch of rows as they arrive
+export function toCsvStream<T>(
+  header: string[],
+  batches: AsyncIterable<T[]>,
+  toValues: (row: T) => CsvValue[],
+) {
+  const encoder = new TextEncoder();
+  const iterator = batches[Symbol.asyncIterator]();
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(toCsvRow(header)));
+    },
+    async pull(controller) {
+      try {
+        const { value, done } = await iterator.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(
+          encoder.encode(value.map((row) => toCsvRow(toValues(row))).join('')),
+        );
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
+
+// Content-Disposition filename such as "invoices-2024-05-01.csv"
+export function csvFilename(name: string) {
+  return `${name}-${new Date().toISOString().slice(0, 10)}.csv`;
+}
+
+// Splits CSV text into rows of cells, honouring quoted cells that contain
+// commas, quotes or line breaks
+export function parseCsv(text: string) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, ''); // Spreadsheets often prepend a BOM
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// Parses CSV with a header row into records keyed by lower-cased column name.
+// Each record keeps its row number in the file (the header is row 1) for error reports.
+export function parseCsvRecords(text: string): CsvRecord[] {
+  const [header = [], ...rows] = parseCsv(text);
+  const columns = header.map((column) => column.trim().toLowerCase());
+
+  return rows.flatMap((cells, i) =>
+    cells.every((cell) => cell.trim() === '')
+      ? [] // Skip blank lines
+      : [
+          {
+            row: i + 2,
+            values: Object.fromEntries(
+              columns.map((column, j) => [column, cells[j]?.trim() ?? '']),
+            ),
+          },
+        ],
+  );
+}
@@ -1,21 +1,96 @@
 import postgres from 'postgres'; // Import postgres client for database connection
 import {
+  AgingReportRow,
+  AuditEntry,
+  AuditLogFilters,
+  Customer,
   CustomerField,
+  CustomerInvoicesTable,
+  CustomerMonthlyTotals,
+  CustomersExportRow,
+  CustomersSortColumn,
   CustomersTableType,
+  DeletedInvoice,
+  InvoiceCursor,
+  InvoiceDocument,
+  InvoiceFilters,
   InvoiceForm,
+  InvoiceItemForm,
+  InvoicesExportRow,
+  InvoicesSortColumn,
   InvoicesTable,
   LatestInvoiceRaw,
+  Organization,
+  Payment,
   Revenue,
+  RevenueChartOptions,
+  Sort,
+  SortDirection,
+  TwoFactorStatus,
+  UserForm,
+  UsersTable,
 } from './definitions'; // Import TypeScript types for data models
-import { formatCurrency } from './utils'; // Import utility to format currency
+import {
+  TRASH_RETENTION_DAYS,
+  formatCurrency,
+  formatInvoiceCursor,
+  previousRevenueShift,
+} from './utils'; // Import utilities to format currency and cursors, the trash retention period and the revenue comparison
+import { getActor } from './session'; // Import the signed-in user, whose organization every query is limited to
 
 const sql = postgres(process.env.POSTGRES_URL!, { ssl: 'require' }); // Create a connection to PostgreSQL using env variable
 
-// Fetches all revenue records from the database
-export async function fetchRevenue() {
+// The organization the signed-in user is working in. Every query below only
+// sees its rows, so no client business can see another's data.
+async function activeOrganizationId() {
+  const { organizationId } = await getActor();
+  if (!organizationId) throw new Error('No active organization.');
+  return organizationId;
+}
+
+// Fetches the money received in each day, week or month of the chart's range,
+// in the base currency, along with the matching period of the range before it.
+// Revenue is counted from payments when they arrive, as the "Collected" card
+// is, so part-paid invoices count as they are paid. Periods with no payments
+// are included with zero revenue.
+export async function fetchRevenue(options: RevenueChartOptions) {
+  const { granularity, from, to } = options;
+  const shift = previousRevenueShift(options);
   try {
-    // Artificial delay for demo purposes (commented out)
-    const data = await sql<Revenue[]>`SELECT * FROM revenue`; // Query all revenue rows
+    const organizationId = await activeOrganizationId();
+    const data = await sql<Revenue[]>`
+      WITH periods AS (
+        SELECT period::date AS period
+        FROM generate_series(
+          date_trunc(${granularity}, ${from}::date),
+          ${to}::date,
+          ${`1 ${granularity}`}::interval
+        ) AS period
+      ),
+      received AS (
+        SELECT
+          date_trunc(${granularity}, payments.date)::date AS period,
+          SUM(payments.amount * exchange_rates.rate) AS amount
+        FROM payments
+        JOIN invoices ON invoices.id = payments.invoice_id
+        JOIN exchange_rates ON exchange_rates.currency = invoices.currency
+        WHERE
+          invoices.organization_id = ${organizationId} AND
+          invoices.deleted_at IS NULL AND
+          payments.date >= date_trunc(${granularity}, date_trunc(${granularity}, ${from}::date) - ${shift}::interval) AND
+          payments.date <= ${to}::date
+        GROUP BY 1
+      )
+      SELECT
+        TO_CHAR(periods.period, 'YYYY-MM-DD') AS "period",
+        COALESCE(ROUND(current.amount), 0)::int AS "revenue",
+        COALESCE(ROUND(previous.amount), 0)::int AS "previous"
+      FROM periods
+      LEFT JOIN received current ON current.period = periods.period
+      LEFT JOIN received previous
+        ON previous.period = date_trunc(${granularity}, periods.period - ${shift}::interval)::date
+      ORDER BY periods.period ASC
+    `; // Total the organization's payments in each period, and in the one it's compared with
     return data; // Return fetched data
   } catch (error) {
     console.error('Database Error:', error); // Log error
@@ -26,17 +101,19 @@ export async function fetchRevenue() {
 // Fetches the latest 5 invoices, joining with customer info
 export async function fetchLatestInvoices() {
   try {
+    const organizationId = await activeOrganizationId();
     const data = await sql<LatestInvoiceRaw[]>`
-      SELECT invoices.amount, customers.name, customers.image_url, customers.email, invoices.id
+      SELECT invoices.amount, invoices.currency, customers.name, customers.image_url, customers.email, invoices.id
       FROM invoices
       JOIN customers ON invoices.customer_id = customers.id
+      WHERE invoices.organization_id = ${organizationId} AND invoices.deleted_at IS NULL
       ORDER BY invoices.date DESC
       LIMIT 5`; // Get latest 5 invoices with customer info
 
     // Format amount for display
     const latestInvoices = data.map((invoice) => ({
       ...invoice,
-      amount: formatCurrency(invoice.amount),
+      amount: formatCurrency(invoice.amount, invoice.currency),
     }));
     return latestInvoices; // Return formatted invoices
   } catch (error) {
@@ -45,34 +122,59 @@ export async function fetchLatestInvoices() {
   }
 }
 
+// Amount still owed on an invoice: its total less the payments recorded
+// against it. Cast back to INT, as SUM returns a BIGINT that arrives as a string.
+function invoiceBalance() {
+  return sql`(
+    invoices.amount - COALESCE(
+      (SELECT SUM(payments.amount) FROM payments WHERE payments.invoice_id = invoices.id),
+      0
+    )
+  )::int`;
+}
+
 // Fetches summary data for dashboard cards (counts and totals)
 export async function fetchCardData() {
   try {
-    // Run three queries in parallel for counts and sums
-    const invoiceCountPromise = sql`SELECT COUNT(*) FROM invoices`;
-    const customerCountPromise = sql`SELECT COUNT(*) FROM customers`;
+    // Run four queries in parallel for counts and sums.
+    // Sums are converted into the base currency with the stored exchange rates.
+    // Invoices in the trash are left out of every total.
+    const organizationId = await activeOrganizationId();
+    const invoiceCountPromise = sql`SELECT COUNT(*) FROM invoices WHERE organization_id = ${organizationId} AND deleted_at IS NULL`;
+    const customerCountPromise = sql`SELECT COUNT(*) FROM customers WHERE organization_id = ${organizationId}`;
     const invoiceStatusPromise = sql`SELECT
-         SUM(CASE WHEN status = 'paid' THEN amount ELSE 0 END) AS "paid",
-         SUM(CASE WHEN status = 'pending' THEN amount ELSE 0 END) AS "pending"
-         FROM invoices`;
+         ROUND(SUM(CASE WHEN status = 'pending' THEN ${invoiceBalance()} * rate ELSE 0 END)) AS "pending",
+         ROUND(SUM(CASE WHEN status = 'pending' AND due_date < CURRENT_DATE THEN ${invoiceBalance()} * rate ELSE 0 END)) AS "overdue"
+         FROM invoices
+         JOIN exchange_rates ON exchange_rates.currency = invoices.currency
+         WHERE invoices.organization_id = ${organizationId} AND invoices.deleted_at IS NULL`; // Outstanding balances
+    const collectedPromise = sql`SELECT
+         ROUND(SUM(payments.amount * rate)) AS "collected"
+         FROM payments
+         JOIN invoices ON invoices.id = payments.invoice_id
+         JOIN exchange_rates ON exchange_rates.currency = invoices.currency
+         WHERE invoices.organization_id = ${organizationId} AND invoices.deleted_at IS NULL`; // Money actually received
 
     const data = await Promise.all([
       invoiceCountPromise,
       customerCountPromise,
       invoiceStatusPromise,
+      collectedPromise,
     ]); // Wait for all queries to finish
 
     // Extract and format results
     const numberOfInvoices = Number(data[0][0].count ?? '0');
     const numberOfCustomers = Number(data[1][0].count ?? '0');
-    const totalPaidInvoices = formatCurrency(data[2][0].paid ?? '0');
-    const totalPendingInvoices = formatCurrency(data[2][0].pending ?? '0');
+    const totalPaidInvoices = formatCurrency(Number(data[3][0].collected ?? '0'));
+    const totalPendingInvoices = formatCurrency(Number(data[2][0].pending ?? '0'));
+    const totalOverdueInvoices = formatCurrency(Number(data[2][0].overdue ?? '0')); // Overdue is a subset of pending
 
     return {
       numberOfCustomers,
       numberOfInvoices,
       totalPaidInvoices,
       totalPendingInvoices,
+      totalOverdueInvoices,
     }; // Return dashboard card data
   } catch (error) {
     console.error('Database Error:', error);
@@ -80,34 +182,200 @@ export async function fetchCardData() {
   }
 }
 
+// Fetches pending balances by age, from the invoice date, for each customer
+// and in total. Amounts are converted as in fetchCardData, and each bucket is
+// the rounded running total less the one before it, so the buckets add up to
+// the total and the overall total matches the "Pending" card to the cent.
+export async function fetchAgingReport() {
+  try {
+    const organizationId = await activeOrganizationId();
+    const data = await sql`
+      WITH balances AS (
+        SELECT
+          invoices.customer_id,
+          CURRENT_DATE - invoices.date AS age,
+          ${invoiceBalance()} * exchange_rates.rate AS balance
+        FROM invoices
+        JOIN exchange_rates ON exchange_rates.currency = invoices.currency
+        WHERE
+          invoices.organization_id = ${organizationId} AND
+          invoices.deleted_at IS NULL AND
+          invoices.status = 'pending'
+      ),
+      running AS (
+        SELECT
+          balances.customer_id,
+          customers.name,
+          customers.email,
+          GROUPING(balances.customer_id) AS is_total,
+          COUNT(balances.balance) AS invoices,
+          COALESCE(ROUND(SUM(balance) FILTER (WHERE age <= 30)), 0) AS up_to_30,
+          COALESCE(ROUND(SUM(balance) FILTER (WHERE age <= 60)), 0) AS up_to_60,
+          COALESCE(ROUND(SUM(balance) FILTER (WHERE age <= 90)), 0) AS up_to_90,
+          COALESCE(ROUND(SUM(balance)), 0) AS total
+        FROM balances
+        LEFT JOIN customers ON customers.id = balances.customer_id -- Kept even if the customer is gone, to match the card
+        GROUP BY GROUPING SETS ((balances.customer_id, customers.name, customers.email), ())
+      )
+      SELECT
+        customer_id,
+        name,
+        email,
+        invoices,
+        up_to_30 AS days_0_30,
+        up_to_60 - up_to_30 AS days_31_60,
+        up_to_90 - up_to_60 AS days_61_90,
+        total - up_to_90 AS days_over_90,
+        total
+      FROM running
+      ORDER BY is_total, total DESC, name
+    `; // Sum each customer's pending balances, and everyone's, by age
+
+    // Counts and sums arrive as strings, since they can outgrow an INT
+    const rows: AgingReportRow[] = data.map((row) => ({
+      customer_id: row.customer_id,
+      name: row.name,
+      email: row.email,
+      invoices: Number(row.invoices),
+      days_0_30: Number(row.days_0_30),
+      days_31_60: Number(row.days_31_60),
+      days_61_90: Number(row.days_61_90),
+      days_over_90: Number(row.days_over_90),
+      total: Number(row.total),
+    }));
+    return {
+      customers: rows.filter((row) => row.customer_id !== null),
+      total: rows.find((row) => row.customer_id === null)!,
+    };
+  } catch (error) {
+    console.error('Database Error:', error);
+    throw new Error('Failed to fetch the aging report.');
+  }
+}
+
 const ITEMS_PER_PAGE = 6; // Number of items per page for pagination
+const EXPORT_BATCH_SIZE = 500; // Rows fetched per round trip when streaming exports
+
+// Matches customers to a search query by full-text search on their name and
+// email, by trigram word similarity to tolerate typos, and by substring so
+// partly typed words match. The GIN indexes from the seed serve all three.
+function customerMatches(query: string) {
+  if (!query) return sql`TRUE`;
+  return sql`(
+    customers.search @@ websearch_to_tsquery('simple', ${query}) OR
+    ${query}::text <% customers.name OR
+    ${query}::text <% customers.email OR
+    customers.name ILIKE ${`%${query}%`} OR
+    customers.email ILIKE ${`%${query}%`}
+  )`;
+}
+
+// How well a customer matches a search query, for ranking results
+function customerRank(query: string) {
+  return sql`(
+    ts_rank(customers.search, websearch_to_tsquery('simple', ${query})) +
+    GREATEST(
+      word_similarity(${query}::text, customers.name),
+      word_similarity(${query}::text, customers.email)
+    )
+  )`;
+}
+
+// WHERE clause shared by the invoices table, its page count and CSV export.
+// The search query matches the customer; the other filters are exact.
+// Invoices in the trash or another organization never match.
+function invoicesFilter(organizationId: string, filters: InvoiceFilters) {
+  const conditions = [
+    sql`invoices.organization_id = ${organizationId}`,
+    sql`invoices.deleted_at IS NULL`,
+    customerMatches(filters.query),
+  ];
+  if (filters.status === 'overdue') {
+    conditions.push(sql`invoices.status = 'pending' AND invoices.due_date < CURRENT_DATE`);
+  } else if (filters.status === 'pending') {
+    conditions.push(sql`invoices.status = 'pending' AND invoices.due_date >= CURRENT_DATE`);
+  } else if (filters.status === 'paid') {
+    conditions.push(sql`invoices.status = 'paid'`);
+  }
+  if (filters.from) conditions.push(sql`invoices.date >= ${filters.from}`);
+  if (filters.to) conditions.push(sql`invoices.date <= ${filters.to}`);
+  if (filters.minAmount !== undefined) {
+    conditions.push(sql`invoices.amount >= ${Math.round(filters.minAmount * 100)}`); // Amounts are stored in cents
+  }
+  if (filters.maxAmount !== undefined) {
+    conditions.push(sql`invoices.amount <= ${Math.round(filters.maxAmount * 100)}`);
+  }
+
+  return conditions.reduce((where, condition) => sql`${where} AND ${condition}`);
+}
+
+// ORDER BY clause for the invoices table, from a whitelisted column.
+// Ties are broken by id so rows keep their place across pages.
+function invoicesOrderBy(sort: Sort<InvoicesSortColumn>, query: string) {
+  const column = {
+    relevance: customerRank(query),
+    name: sql`customers.name`,
+    email: sql`customers.email`,
+    amount: sql`invoices.amount`,
+    date: sql`invoices.date`,
+    due_date: sql`invoices.due_date`,
+    status: sql`status`, // The derived display status
+  }[sort.column];
+  const dir = sort.dir === 'asc' ? sql`ASC` : sql`DESC`;
+  return sql`${column} ${dir}, invoices.id ${dir}`;
+}
+
+// ORDER BY clause for the customers table, from a whitelisted column
+function customersOrderBy(sort: Sort<CustomersSortColumn>, query: string) {
+  const column = {
+    relevance: customerRank(query),
+    name: sql`customers.name`,
+    email: sql`customers.email`,
+    total_invoices: sql`total_invoices`,
+    total_pending: sql`total_pending`,
+    total_paid: sql`total_paid`,
+  }[sort.column];
+  const dir = sort.dir === 'asc' ? sql`ASC` : sql`DESC`;
+  return sql`${column} ${dir}, customers.id ${dir}`;
+}
 
-// Fetches filtered invoices for a given search query and page
+// Rows of the invoices table matching the filters, before ordering and paging
+function invoicesTableQuery(organizationId: string, filters: InvoiceFilters) {
+  return sql`
+    SELECT
+      invoices.id,
+      invoices.customer_id,
+      invoices.amount,
+      ${invoiceBalance()} AS balance,
+      invoices.currency,
+      invoices.date,
+      invoices.due_date,
+      CASE
+        WHEN invoices.status = 'pending' AND invoices.due_date < CURRENT_DATE THEN 'overdue'
+        ELSE invoices.status
+      END AS status,
+      customers.name,
+      customers.email,
+      customers.image_url
+    FROM invoices
+    JOIN customers ON invoices.customer_id = customers.id
+    WHERE ${invoicesFilter(organizationId, filters)}
+  `;
+}
+
+// Fetches filtered invoices for the given filters, page and sort order
 export async function fetchFilteredInvoices(
-  query: string,
+  filters: InvoiceFilters,
   currentPage: number,
+  sort: Sort<InvoicesSortColumn>,
 ) {
   const offset = (currentPage - 1) * ITEMS_PER_PAGE; // Calculate offset for pagination
 
   try {
+    const organizationId = await activeOrganizationId();
     const invoices = await sql<InvoicesTable[]>`
-      SELECT
-        invoices.id,
-        invoices.amount,
-        invoices.date,
-        invoices.status,
-        customers.name,
-        customers.email,
-        customers.image_url
-      FROM invoices
-      JOIN customers ON invoices.customer_id = customers.id
-      WHERE
-        customers.name ILIKE ${`%${query}%`} OR
-        customers.email ILIKE ${`%${query}%`} OR
-        invoices.amount::text ILIKE ${`%${query}%`} OR
-        invoices.date::text ILIKE ${`%${query}%`} OR
-        invoices.status ILIKE ${`%${query}%`}
-      ORDER BY invoices.date DESC
+      ${invoicesTableQuery(organizationId, filters)}
+      ORDER BY ${invoicesOrderBy(sort, filters.query)}
       LIMIT ${ITEMS_PER_PAGE} OFFSET ${offset}
     `; // Query filtered invoices with pagination
 
@@ -118,45 +386,135 @@ export async function fetchFilteredInvoices(
   }
 }
 
-// Fetches total number of pages for filtered invoices
-export async function fetchInvoicesPages(query: string) {
+// Fetches the page of filtered invoices after (or before) a cursor, in date
+// order. Unlike OFFSET, seeking to a (date, id) uses the index however deep
+// the page is. Returns the cursors of the neighbouring pages, if any.
+export async function fetchInvoicesByCursor(
+  filters: InvoiceFilters,
+  cursor: { after?: InvoiceCursor; before?: InvoiceCursor },
+  dir: SortDirection,
+) {
+  const backwards = !!cursor.before;
+  const key = cursor.before ?? cursor.after;
+  const descending = (dir === 'desc') !== backwards; // Reading order of this query
+
+  try {
+    const organizationId = await activeOrganizationId();
+    const rows = await sql<InvoicesTable[]>`
+      ${invoicesTableQuery(organizationId, filters)}
+      ${
+        key
+          ? sql`AND (invoices.date, invoices.id) ${descending ? sql`<` : sql`>`} (${key.date}::date, ${key.id}::uuid)`
+          : sql``
+      }
+      ORDER BY
+        invoices.date ${descending ? sql`DESC` : sql`ASC`},
+        invoices.id ${descending ? sql`DESC` : sql`ASC`}
+      LIMIT ${ITEMS_PER_PAGE + 1}
+    `; // Fetch one extra row to learn whether there is another page
+
+    const hasMore = rows.length > ITEMS_PER_PAGE;
+    const invoices = rows.slice(0, ITEMS_PER_PAGE);
+    if (backwards) invoices.reverse(); // Restore display order
+    const first = invoices[0];
+    const last = invoices[invoices.length - 1];
+
+    return {
+      invoices,
+      previous:
+        first && (backwards ? hasMore : !!key)
+          ? formatInvoiceCursor(first)
+          : undefined,
+      next:
+        last && (backwards || hasMore) ? formatInvoiceCursor(last) : undefined,
+    };
+  } catch (error) {
+    console.error('Database Error:', error);
+    throw new Error('Failed to fetch invoices.');
+  }
+}
+
+// Estimates the number of filtered invoices from the query planner's row
+// estimate, which avoids the full scan an exact COUNT(*) needs
+export async function fetchInvoicesCountEstimate(filters: InvoiceFilters) {
+  try {
+    const organizationId = await activeOrganizationId();
+    const [explain] = await sql`
+      EXPLAIN (FORMAT JSON)
+      SELECT invoices.id
+      FROM invoices
+      JOIN customers ON invoices.customer_id = customers.id
+      WHERE ${invoicesFilter(organizationId, filters)}
+    `;
+    return Number(explain['QUERY PLAN'][0].Plan['Plan Rows']);
+  } catch (error) {
+    console.error('Database Error:', error);
+    throw new Error('Failed to estimate total number of invoices.');
+  }
+}
+
+// Fetches the exact number of filtered invoices
+export async function fetchInvoicesCount(filters: InvoiceFilters) {
   try {
+    const organizationId = await activeOrganizationId();
     const data = await sql`SELECT COUNT(*)
     FROM invoices
     JOIN customers ON invoices.customer_id = customers.id
-    WHERE
-      customers.name ILIKE ${`%${query}%`} OR
-      customers.email ILIKE ${`%${query}%`} OR
-      invoices.amount::text ILIKE ${`%${query}%`} OR
-      invoices.date::text ILIKE ${`%${query}%`} OR
-      invoices.status ILIKE ${`%${query}%`}
+    WHERE ${invoicesFilter(organizationId, filters)}
   `; // Count filtered invoices
 
-    const totalPages = Math.ceil(Number(data[0].count) / ITEMS_PER_PAGE); // Calculate total pages
-    return totalPages; // Return total pages
+    return Number(data[0].count);
   } catch (error) {
     console.error('Database Error:', error);
     throw new Error('Failed to fetch total number of invoices.');
   }
 }
 
+// Fetches total number of pages for filtered invoices
+export async function fetchInvoicesPages(filters: InvoiceFilters) {
+  const count = await fetchInvoicesCount(filters); // Count filtered invoices
+  return Math.ceil(count / ITEMS_PER_PAGE); // Calculate total pages
+}
+
 // Fetches a single invoice by its ID
 export async function fetchInvoiceById(id: string) {
   try {
-    const data = await sql<InvoiceForm[]>`
-      SELECT
-        invoices.id,
-        invoices.customer_id,
-        invoices.amount,
-        invoices.status
-      FROM invoices
-      WHERE invoices.id = ${id};
-    `; // Query invoice by ID
+    const organizationId = await activeOrganizationId();
+    const [data, items] = await Promise.all([
+      sql<Omit<InvoiceForm, 'items'>[]>`
+        SELECT
+          invoices.id,
+          invoices.customer_id,
+          invoices.amount,
+          invoices.status,
+          invoices.payment_terms,
+          invoices.currency,
+          invoices.tax_rate,
+          invoices.discount
+        FROM invoices
+        WHERE
+          invoices.id = ${id} AND
+          invoices.organization_id = ${organizationId} AND
+          invoices.deleted_at IS NULL;
+      `, // Query invoice by ID
+      sql<InvoiceItemForm[]>`
+        SELECT description, quantity, unit_price
+        FROM invoice_items
+        WHERE invoice_id = ${id}
+        ORDER BY position ASC
+      `, // Query the invoice's line items
+    ]);
 
     const invoice = data.map((invoice) => ({
       ...invoice,
-      // Convert amount from cents to dollars
+      // Convert amounts from cents to dollars
       amount: invoice.amount / 100,
+      discount: invoice.discount / 100,
+      tax_rate: Number(invoice.tax_rate), // NUMERIC comes back as a string
+      items: items.map((item) => ({
+        ...item,
+        unit_price: item.unit_price / 100,
+      })),
     }));
 
     return invoice[0]; // Return the invoice object
@@ -166,16 +524,78 @@ export async function fetchInvoiceById(id: string) {
   }
 }
 
+// Fetches an invoice with its customer and line items, for printing or PDF export
+export async function fetchInvoiceDocument(id: string) {
+  try {
+    const organizationId = await activeOrganizationId();
+    const [data, items] = await Promise.all([
+      sql`
+        SELECT
+          invoices.id,
+          customers.name AS customer_name,
+          customers.email AS customer_email,
+          invoices.date,
+          invoices.due_date,
+          invoices.payment_terms,
+          invoices.paid_at,
+          CASE
+            WHEN invoices.status = 'pending' AND invoices.due_date < CURRENT_DATE THEN 'overdue'
+            ELSE invoices.status
+          END AS status,
+          invoices.currency,
+          invoices.tax_rate,
+          invoices.discount,
+          invoices.amount,
+          ${invoiceBalance()} AS balance
+        FROM invoices
+        JOIN customers ON invoices.customer_id = customers.id
+        WHERE
+          invoices.id = ${id} AND
+          invoices.organization_id = ${organizationId} AND
+          invoices.deleted_at IS NULL;
+      `, // Query invoice and customer by ID
+      sql<InvoiceDocument['items']>`
+        SELECT description, quantity, unit_price
+        FROM invoice_items
+        WHERE invoice_id = ${id}
+        ORDER BY position ASC
+      `, // Query the invoice's line items
+    ]);
+
+    if (data.length === 0) return undefined; // No such invoice
+
+    const subtotal = items.reduce(
+      (total, item) => total + item.quantity * item.unit_price,
+      0,
+    );
+    // Tax is whatever the stored total adds on top of the discounted subtotal
+    const tax = data[0].amount - (subtotal - data[0].discount);
+
+    return {
+      ...data[0],
+      tax_rate: Number(data[0].tax_rate), // NUMERIC comes back as a string
+      subtotal,
+      tax,
+      items: [...items],
+    } as InvoiceDocument; // Return the invoice document
+  } catch (error) {
+    console.error('Database Error:', error);
+    throw new Error('Failed to fetch invoice document.');
+  }
+}
+
 // Fetches all customers (id and name only)
 export async function fetchCustomers() {
   try {
+    const organizationId = await activeOrganizationId();
     const customers = await sql<CustomerField[]>`
       SELECT
         id,
         name
       FROM customers
+      WHERE organization_id = ${organizationId}
       ORDER BY name ASC
-    `; // Query all customers
+    `; // Query all of the organization's customers
 
     return customers; // Return customer list
   } catch (err) {
@@ -184,9 +604,47 @@ export async function fetchCustomers() {
   }
 }
 
-// Fetches filtered customers for a given search query
-export async function fetchFilteredCustomers(query: string) {
+// Fetches a single customer by its ID
+export async function fetchCustomerById(id: string) {
   try {
+    const organizationId = await activeOrganizationId();
+    const data = await sql<Customer[]>`
+      SELECT
+        customers.id,
+        customers.name,
+        customers.email,
+        customers.image_url
+      FROM customers
+      WHERE customers.id = ${id} AND customers.organization_id = ${organizationId};
+    `; // Query customer by ID
+
+    return data[0]; // Return the customer object
+  } catch (error) {
+    console.error('Database Error:', error);
+    throw new Error('Failed to fetch customer.');
+  }
+}
+
+// A customer's pending balances and the payments they have made, in the base
+// currency, as the customer cards count them. Part-paid invoices are split
+// between the two.
+function customerTotals() {
+  return sql`
+    ROUND(SUM(CASE WHEN invoices.status = 'pending' THEN ${invoiceBalance()} * exchange_rates.rate ELSE 0 END)) AS total_pending,
+    ROUND(SUM((invoices.amount - ${invoiceBalance()}) * exchange_rates.rate)) AS total_paid
+  `;
+}
+
+// Fetches filtered customers for a given search query, page and sort order
+export async function fetchFilteredCustomers(
+  query: string,
+  currentPage: number,
+  sort: Sort<CustomersSortColumn>,
+) {
+  const offset = (currentPage - 1) * ITEMS_PER_PAGE; // Calculate offset for pagination
+
+  try {
+    const organizationId = await activeOrganizationId();
     const data = await sql<CustomersTableType[]>`
         SELECT
           customers.id,
@@ -194,22 +652,22 @@ export async function fetchFilteredCustomers(query: string) {
           customers.email,
           customers.image_url,
           COUNT(invoices.id) AS total_invoices,
-          SUM(CASE WHEN invoices.status = 'pending' THEN invoices.amount ELSE 0 END) AS total_pending,
-          SUM(CASE WHEN invoices.status = 'paid' THEN invoices.amount ELSE 0 END) AS total_paid
+          (SELECT COUNT(*) FROM invoices AS all_invoices WHERE all_invoices.customer_id = customers.id) AS all_invoices,
+          ${customerTotals()}
         FROM customers
-        LEFT JOIN invoices ON customers.id = invoices.customer_id
-        WHERE
-          customers.name ILIKE ${`%${query}%`} OR
-        customers.email ILIKE ${`%${query}%`}
+        LEFT JOIN invoices ON customers.id = invoices.customer_id AND invoices.deleted_at IS NULL
+        LEFT JOIN exchange_rates ON exchange_rates.currency = invoices.currency
+        WHERE customers.organization_id = ${organizationId} AND ${customerMatches(query)}
         GROUP BY customers.id, customers.name, customers.email, customers.image_url
-        ORDER BY customers.name ASC
-      `; // Query filtered customers with invoice stats
+        ORDER BY ${customersOrderBy(sort, query)}
+        LIMIT ${ITEMS_PER_PAGE} OFFSET ${offset}
+      `; // Query filtered customers with invoice stats and pagination
 
-    // Format totals for display
+    // Format totals for display, in the base currency
     const customers = data.map((customer) => ({
       ...customer,
-      total_pending: formatCurrency(customer.total_pending),
-      total_paid: formatCurrency(customer.total_paid),
+      total_pending: formatCurrency(Number(customer.total_pending)),
+      total_paid: formatCurrency(Number(customer.total_paid)),
     }));
 
     return customers; // Return formatted customer data
@@ -218,3 +676,424 @@ export async function fetchFilteredCustomers(query: string) {
     throw new Error('Failed to fetch customer table.');
   }
 }
+
+// Fetches total number of pages for filtered customers
+export async function fetchCustomersPages(query: string) {
+  try {
+    const organizationId = await activeOrganizationId();
+    const data = await sql`SELECT COUNT(*)
+    FROM customers
+    WHERE customers.organization_id = ${organizationId} AND ${customerMatches(query)}
+  `; // Count filtered customers
+
+    const totalPages = Math.ceil(Number(data[0].count) / ITEMS_PER_PAGE); // Calculate total pages
+    return totalPages; // Return total pages
+  } catch (error) {
+    console.error('Database Error:', error);
+    throw new Error('Failed to fetch total number of customers.');
+  }
+}
+
+// Fetches one customer's invoices for the given filters and page, filtered
+// the same way as the invoices list
+export async function fetchFilteredInvoicesByCustomer(
+  customerId: string,
+  filters: InvoiceFilters,
+  currentPage: number,
+) {
+  const offset = (currentPage - 1) * ITEMS_PER_PAGE; // Calculate offset for pagination
+
+  try {
+    const organizationId = await activeOrganizationId();
+    const invoices = await sql<CustomerInvoicesTable[]>`
+      SELECT
+        invoices.id,
+        invoices.amount,
+        invoices.currency,
+        invoices.date,
+        invoices.due_date,
+        CASE
+          WHEN invoices.status = 'pending' AND invoices.due_date < CURRENT_DATE THEN 'overdue'
+          ELSE invoices.status
+        END AS status,
+        invoices.paid_at
+      FROM invoices
+      JOIN customers ON invoices.customer_id = customers.id
+      WHERE
+        ${invoicesFilter(organizationId, filters)} AND
+        invoices.customer_id = ${customerId}
+      ORDER BY invoices.date DESC, invoices.id DESC
+      LIMIT ${ITEMS_PER_PAGE} OFFSET ${offset}
+    `; // Query the customer's invoices with pagination
+
+    return invoices; // Return filtered invoices
+  } catch (error) {
+    console.error('Database Error:', error);
+    throw new Error("Failed to fetch the customer's invoices.");
+  }
+}
+
+// Fetches total number of pages for one customer's filtered invoices
+export async function fetchInvoicesPagesByCustomer(
+  customerId: string,
+  filters: InvoiceFilters,
+) {
+  try {
+    const organizationId = await activeOrganizationId();
+    const data = await sql`SELECT COUNT(*)
+    FROM invoices
+    JOIN customers ON invoices.customer_id = customers.id
+    WHERE
+      ${invoicesFilter(organizationId, filters)} AND
+      invoices.customer_id = ${customerId}
+  `; // Count the customer's filtered invoices
+
+    const totalPages = Math.ceil(Number(data[0].count) / ITEMS_PER_PAGE); // Calculate total pages
+    return totalPages; // Return total pages
+  } catch (error) {
+    console.error('Database Error:', error);
+    throw new Error("Failed to fetch total number of the customer's invoices.");
+  }
+}
+
+// Fetches lifetime totals and average days to pay for one customer
+export async function fetchCustomerStats(customerId: string) {
+  try {
+    const organizationId = await activeOrganizationId();
+    const data = await sql`SELECT
+         COUNT(*) AS "count",
+         ROUND(SUM((amount - ${invoiceBalance()}) * rate)) AS "paid",
+         ROUND(SUM(CASE WHEN status = 'pending' THEN ${invoiceBalance()} * rate ELSE 0 END)) AS "pending",
+         ROUND(SUM(CASE WHEN status = 'pending' AND due_date < CURRENT_DATE THEN ${invoiceBalance()} * rate ELSE 0 END)) AS "overdue",
+         AVG(CASE WHEN status = 'paid' THEN paid_at - date END) AS "days_to_pay"
+         FROM invoices
+         JOIN exchange_rates ON exchange_rates.currency = invoices.currency
+         WHERE customer_id = ${customerId} AND organization_id = ${organizationId} AND deleted_at IS NULL`; // Aggregate the customer's invoices in the base currency; "paid" is what their payments add up to
+
+    // AVG skips paid invoices without a paid_at, e.g. ones paid before it was recorded
+    const daysToPay = data[0].days_to_pay;
+
+    return {
+      numberOfInvoices: Number(data[0].count ?? '0'),
+      totalPaidInvoices: formatCurrency(Number(data[0].paid ?? '0')),
+      totalPendingInvoices: formatCurrency(Number(data[0].pending ?? '0')),
+      totalOverdueInvoices: formatCurrency(Number(data[0].overdue ?? '0')),
+      averageDaysToPay:
+        daysToPay === null ? null : Math.round(Number(daysToPay)),
+    }; // Return customer stats
+  } catch (error) {
+    console.error('Database Error:', error);
+    throw new Error('Failed to fetch customer stats.');
+  }
+}
+
+// Fetches one customer's paid and pending totals for each month they were
+// invoiced, split by payments as in fetchCustomerStats
+export async function fetchCustomerMonthlyTotals(customerId: string) {
+  try {
+    const organizationId = await activeOrganizationId();
+    const data = await sql<CustomerMonthlyTotals[]>`SELECT
+         TO_CHAR(date, 'YYYY-MM') AS "month",
+         ROUND(SUM((amount - ${invoiceBalance()}) * rate)) AS "paid",
+         ROUND(SUM(CASE WHEN status = 'pending' THEN ${invoiceBalance()} * rate ELSE 0 END)) AS "pending"
+         FROM invoices
+         JOIN exchange_rates ON exchange_rates.currency = invoices.currency
+         WHERE customer_id = ${customerId} AND organization_id = ${organizationId} AND deleted_at IS NULL
+         GROUP BY TO_CHAR(date, 'YYYY-MM')
+         ORDER BY "month" ASC`; // Group the customer's invoices by month, in the base currency; "paid" is what has been paid against them
+
+    // ROUND returns a numeric, which the driver hands back as a string
+    const monthlyTotals = data.map((month) => ({
+      ...month,
+      paid: Number(month.paid),
+      pending: Number(month.pending),
+    }));
+    return monthlyTotals; // Return monthly totals
+  } catch (error) {
+    console.error('Database Error:', error);
+    throw new Error('Failed to fetch customer monthly totals.');
+  }
+}
+
+// Streams every invoice matching the filters, in batches, for CSV export
+export async function* streamFilteredInvoices(filters: InvoiceFilters) {
+  try {
+    const organizationId = await activeOrganizationId();
+    const cursor = sql<InvoicesExportRow[]>`
+      SELECT
+        invoices.id,
+        customers.name,
+        customers.email,
+        invoices.date::text AS date,
+        invoices.due_date::text AS due_date,
+        CASE
+          WHEN invoices.status = 'pending' AND invoices.due_date < CURRENT_DATE THEN 'overdue'
+          ELSE invoices.status
+        END AS status,
+        invoices.currency,
+        invoices.amount,
+        ${invoiceBalance()} AS balance
+      FROM invoices
+      JOIN customers ON invoices.customer_id = customers.id
+      WHERE ${invoicesFilter(organizationId, filters)}
+      ORDER BY invoices.date DESC
+    `.cursor(EXPORT_BATCH_SIZE); // Query filtered invoices without pagination
+
+    for await (const rows of cursor) {
+      yield rows;
+    }
+  } catch (error) {
+    console.error('Database Error:', error);
+    throw new Error('Failed to export invoices.');
+  }
+}
+
+// Streams every customer matching a search query, in batches, for CSV export
+export async function* streamFilteredCustomers(query: string) {
+  try {
+    const organizationId = await activeOrganizationId();
+    const cursor = sql<CustomersExportRow[]>`
+      SELECT
+        customers.id,
+        customers.name,
+        customers.email,
+        COUNT(invoices.id) AS total_invoices,
+        ${customerTotals()}
+      FROM customers
+      LEFT JOIN invoices ON customers.id = invoices.customer_id AND invoices.deleted_at IS NULL
+      LEFT JOIN exchange_rates ON exchange_rates.currency = invoices.currency
+      WHERE customers.organization_id = ${organizationId} AND ${customerMatches(query)}
+      GROUP BY customers.id, customers.name, customers.email
+      ORDER BY customers.name ASC
+    `.cursor(EXPORT_BATCH_SIZE); // Query filtered customers without pagination
+
+    for await (const rows of cursor) {
+      yield rows;
+    }
+  } catch (error) {
+    console.error('Database Error:', error);
+    throw new Error('Failed to export customers.');
+  }
+}
+
+// Fetches the payments recorded against an invoice, oldest first
+export async function fetchInvoicePayments(invoiceId: string) {
+  try {
+    const organizationId = await activeOrganizationId();
+    const payments = await sql<Payment[]>`
+      SELECT id, invoice_id, amount, date, method, reference
+      FROM payments
+      WHERE invoice_id = ${invoiceId} AND EXISTS (
+        SELECT 1 FROM invoices
+        WHERE
+          invoices.id = ${invoiceId} AND
+          invoices.organization_id = ${organizationId} AND
+          invoices.deleted_at IS NULL
+      )
+      ORDER BY date ASC, created_at ASC
+    `; // Query the invoice's payments
+
+    return payments;
+  } catch (error) {
+    console.error('Database Error:', error);
+    throw new Error('Failed to fetch payments.');
+  }
+}
+
+// Fetches a page of the invoices in the trash, most recently deleted first
+export async function fetchDeletedInvoices(currentPage: number) {
+  const offset = (currentPage - 1) * ITEMS_PER_PAGE;
+
+  try {
+    const organizationId = await activeOrganizationId();
+    const invoices = await sql<DeletedInvoice[]>`
+      SELECT
+        invoices.id,
+        customers.name,
+        customers.email,
+        customers.image_url,
+        invoices.date,
+        invoices.amount,
+        invoices.currency,
+        invoices.deleted_at,
+        purge.after AS purgeable_at,
+        purge.after <= NOW() AS purgeable
+      FROM invoices
+      JOIN customers ON invoices.customer_id = customers.id
+      CROSS JOIN LATERAL (
+        SELECT invoices.deleted_at + make_interval(days => ${TRASH_RETENTION_DAYS}) AS after
+      ) AS purge
+      WHERE invoices.organization_id = ${organizationId} AND invoices.deleted_at IS NOT NULL
+      ORDER BY invoices.deleted_at DESC, invoices.id DESC
+      LIMIT ${ITEMS_PER_PAGE} OFFSET ${offset}
+    `; // Query deleted invoices with when each can be purged
+
+    return invoices;
+  } catch (error) {
+    console.error('Database Error:', error);
+    throw new Error('Failed to fetch deleted invoices.');
+  }
+}
+
+// Fetches total number of pages of invoices in the trash
+export async function fetchDeletedInvoicesPages() {
+  try {
+    const organizationId = await activeOrganizationId();
+    const data = await sql`
+      SELECT COUNT(*) FROM invoices
+      WHERE organization_id = ${organizationId} AND deleted_at IS NOT NULL
+    `; // Count deleted invoices
+
+    return Math.ceil(Number(data[0].count) / ITEMS_PER_PAGE);
+  } catch (error) {
+    console.error('Database Error:', error);
+    throw new Error('Failed to fetch total number of deleted invoices.');
+  }
+}
+
+// WHERE clause for the audit log viewer and its page count
+function auditLogFilter(organizationId: string, filters: AuditLogFilters) {
+  const conditions = [sql`organization_id = ${organizationId}`];
+  if (filters.entity) conditions.push(sql`entity_type = ${filters.entity}`);
+  if (filters.action) conditions.push(sql`action = ${filters.action}`);
+  if (filters.user) conditions.push(sql`user_email ILIKE ${`%${filters.user}%`}`);
+  if (filters.from) conditions.push(sql`created_at >= ${filters.from}::date`);
+  if (filters.to) {
+    conditions.push(sql`created_at < ${filters.to}::date + 1`); // Include the whole day
+  }
+
+  return conditions.reduce((where, condition) => sql`${where} AND ${condition}`);
+}
+
+// Fetches a page of audit log entries, newest first
+export async function fetchAuditLog(
+  filters: AuditLogFilters,
+  currentPage: number,
+) {
+  const offset = (currentPage - 1) * ITEMS_PER_PAGE;
+
+  try {
+    const organizationId = await activeOrganizationId();
+    const entries = await sql<AuditEntry[]>`
+      SELECT id, user_email, action, entity_type, entity_id, changes, created_at
+      FROM audit_log
+      WHERE ${auditLogFilter(organizationId, filters)}
+      ORDER BY created_at DESC, id DESC
+      LIMIT ${ITEMS_PER_PAGE} OFFSET ${offset}
+    `; // Query filtered audit log entries with pagination
+
+    return entries;
+  } catch (error) {
+    console.error('Database Error:', error);
+    throw new Error('Failed to fetch audit log.');
+  }
+}
+
+// Fetches total number of pages of filtered audit log entries
+export async function fetchAuditLogPages(filters: AuditLogFilters) {
+  try {
+    const organizationId = await activeOrganizationId();
+    const data = await sql`
+      SELECT COUNT(*) FROM audit_log WHERE ${auditLogFilter(organizationId, filters)}
+    `; // Count filtered audit log entries
+
+    return Math.ceil(Number(data[0].count) / ITEMS_PER_PAGE);
+  } catch (error) {
+    console.error('Database Error:', error);
+    throw new Error('Failed to fetch total number of audit log entries.');
+  }
+}
+
+// How many organizations besides the active one a member belongs to
+function otherOrganizations() {
+  return sql`(
+    SELECT COUNT(*)::int FROM memberships AS others
+    WHERE others.user_id = memberships.user_id
+      AND others.organization_id <> memberships.organization_id
+  ) AS other_organizations`;
+}
+
+// Fetches every member of the organization, active ones first
+export async function fetchUsers() {
+  try {
+    const organizationId = await activeOrganizationId();
+    const users = await sql<UsersTable[]>`
+      SELECT
+        users.id,
+        users.name,
+        users.email,
+        memberships.role,
+        users.deactivated_at,
+        ${otherOrganizations()}
+      FROM users
+      JOIN memberships ON memberships.user_id = users.id
+      WHERE memberships.organization_id = ${organizationId}
+      ORDER BY users.deactivated_at IS NOT NULL, users.name ASC
+    `; // Query the organization's users without their password hashes
+
+    return users;
+  } catch (error) {
+    console.error('Database Error:', error);
+    throw new Error('Failed to fetch users.');
+  }
+}
+
+// Fetches a single member of the organization by their ID, for editing
+export async function fetchUserById(id: string) {
+  try {
+    const organizationId = await activeOrganizationId();
+    const data = await sql<UserForm[]>`
+      SELECT users.id, users.name, users.email, memberships.role, ${otherOrganizations()}
+      FROM users
+      JOIN memberships ON memberships.user_id = users.id
+      WHERE users.id = ${id} AND memberships.organization_id = ${organizationId};
+    `; // Query user by ID
+
+    return data[0];
+  } catch (error) {
+    console.error('Database Error:', error);
+    throw new Error('Failed to fetch user.');
+  }
+}
+
+// Fetches whether a user has two-factor sign-in on, and how many of their
+// recovery codes are unused
+export async function fetchTwoFactorStatus(id: string) {
+  try {
+    const data = await sql<TwoFactorStatus[]>`
+      SELECT
+        users.totp_enabled_at AS enabled_at,
+        (
+          SELECT COUNT(*)::int
+          FROM two_factor_recovery_codes
+          WHERE user_id = users.id AND used_at IS NULL
+        ) AS recovery_codes_left
+      FROM users
+      WHERE users.id = ${id};
+    `; // Query two-factor status by user ID
+
+    return data[0];
+  } catch (error) {
+    console.error('Database Error:', error);
+    throw new Error('Failed to fetch two-factor status.');
+  }
+}
+
+// Fetches the organizations the signed-in user belongs to, for switching between them
+export async function fetchOrganizations() {
+  try {
+    const { id } = await getActor();
+    const organizations = await sql<Organization[]>`
+      SELECT organizations.id, organizations.name
+      FROM organizations
+      JOIN memberships ON memberships.organization_id = organizations.id
+      WHERE memberships.user_id = ${id}
+      ORDER BY organizations.name ASC
+    `; // Query the user's organizations
+
+    return organizations;
+  } catch (error) {
+    console.error('Database Error:', error);
+    throw new Error('Failed to fetch organizations.');
+  }
+}
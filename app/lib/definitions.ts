@@ -2,11 +2,45 @@
 // It describes the shape of the data, and what data type each property should accept.
 // For simplicity of teaching, we're manually defining these types.
 // However, these types are generated automatically if you're using an ORM such as Prisma.
+export type Role = 'admin' | 'accountant' | 'viewer';
+
+export type Organization = {
+  id: string;
+  name: string;
+};
+
 export type User = {
   id: string;
   name: string;
   email: string;
   password: string;
+  deactivated_at: string | null; // Deactivated users can no longer sign in
+  totp_secret: string | null;
+  totp_enabled_at: string | null; // Set once two-factor sign-in is turned on
+};
+
+// Users are listed with their role in the active organization. Those who also
+// belong to others keep their sign-in details to themselves.
+export type UsersTable = {
+  id: string;
+  name: string;
+  email: string;
+  role: Role;
+  deactivated_at: string | null;
+  other_organizations: number;
+};
+
+export type UserForm = {
+  id: string;
+  name: string;
+  email: string;
+  role: Role;
+  other_organizations: number;
+};
+
+export type TwoFactorStatus = {
+  enabled_at: string | null;
+  recovery_codes_left: number;
 };
 
 export type Customer = {
@@ -24,11 +58,81 @@ export type Invoice = {
   // In TypeScript, this is called a string union type.
   // It means that the "status" property can only be one of the two strings: 'pending' or 'paid'.
   status: 'pending' | 'paid';
+  // The date the invoice was marked as paid, or null while it is pending.
+  paid_at: string | null;
+  // Days the customer has to pay, e.g. 30 for "Net 30".
+  payment_terms: PaymentTerms;
+  due_date: string;
+  currency: Currency;
+  // Percentage applied after the discount, e.g. 15 for 15%.
+  tax_rate: number;
+  // Discount in cents, taken off the line items' subtotal.
+  discount: number;
+};
+
+export type Currency = 'USD' | 'EUR' | 'GBP' | 'ZAR' | 'CAD' | 'AUD';
+
+export type ExchangeRate = {
+  currency: Currency;
+  // Units of the base currency that one unit of this currency buys.
+  rate: number;
+};
+
+export type PaymentTerms = 15 | 30 | 60;
+
+export type InvoiceItem = {
+  id: string;
+  invoice_id: string;
+  description: string;
+  quantity: number;
+  // Unit price in cents. An invoice's amount is the sum of quantity * unit_price.
+  unit_price: number;
+  position: number;
+};
+
+// 'overdue' is never stored. It is derived for pending invoices past their due date.
+export type InvoiceDisplayStatus = Invoice['status'] | 'overdue';
+
+// Filters for the invoices list, read from the URL. Amounts are in the
+// invoice's own currency units (dollars, not cents).
+export type InvoiceFilters = {
+  query: string;
+  status?: InvoiceDisplayStatus;
+  from?: string;
+  to?: string;
+  minAmount?: number;
+  maxAmount?: number;
+};
+
+export type RevenueRange = '30d' | 'quarter' | 'year' | 'custom';
+
+export type RevenueGranularity = 'day' | 'week' | 'month';
+
+// What the dashboard revenue chart shows, read from the URL
+export type RevenueChartOptions = {
+  range: RevenueRange;
+  granularity: RevenueGranularity;
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD, inclusive
+  compare: boolean;
 };
 
 export type Revenue = {
-  month: string;
-  revenue: number;
+  period: string; // YYYY-MM-DD, the first day of the day, week or month
+  revenue: number; // In cents, in the base currency
+  previous: number; // The same period in the range before, for comparison
+};
+
+// Pending invoices by how many days have passed since they were issued
+export type AgingBucket = 'days_0_30' | 'days_31_60' | 'days_61_90' | 'days_over_90';
+
+// Amounts are in cents, in the base currency
+export type AgingReportRow = Record<AgingBucket, number> & {
+  customer_id: string | null; // Null on the total of every customer
+  name: string | null; // Also null if the customer no longer exists
+  email: string | null;
+  invoices: number;
+  total: number;
 };
 
 export type LatestInvoice = {
@@ -37,6 +141,7 @@ export type LatestInvoice = {
   image_url: string;
   email: string;
   amount: string;
+  currency: Currency;
 };
 
 // The database returns a number for amount, but we later format it to a string with the formatCurrency function
@@ -51,16 +156,89 @@ export type InvoicesTable = {
   email: string;
   image_url: string;
   date: string;
+  due_date: string;
   amount: number;
-  status: 'pending' | 'paid';
+  balance: number;
+  currency: Currency;
+  status: InvoiceDisplayStatus;
 };
 
+// A soft-deleted invoice in the trash. It can be purged for good once
+// purgeable_at has passed.
+export type DeletedInvoice = {
+  id: string;
+  name: string;
+  email: string;
+  image_url: string;
+  date: string;
+  amount: number;
+  currency: Currency;
+  deleted_at: string;
+  purgeable_at: string;
+  purgeable: boolean;
+};
+
+export type InvoicesExportRow = {
+  id: string;
+  name: string;
+  email: string;
+  date: string;
+  due_date: string;
+  status: InvoiceDisplayStatus;
+  currency: Currency;
+  amount: number;
+  balance: number;
+};
+
+// Position in the invoices list for keyset pagination: the (date, id) of
+// the row to continue after or before
+export type InvoiceCursor = {
+  date: string;
+  id: string;
+};
+
+export type SortDirection = 'asc' | 'desc';
+
+export type Sort<Column extends string> = {
+  column: Column;
+  dir: SortDirection;
+};
+
+// 'relevance' ranks search results and is the default while searching
+export type InvoicesSortColumn =
+  | 'relevance'
+  | 'name'
+  | 'email'
+  | 'amount'
+  | 'date'
+  | 'due_date'
+  | 'status';
+
+export type CustomersSortColumn =
+  | 'relevance'
+  | 'name'
+  | 'email'
+  | 'total_invoices'
+  | 'total_pending'
+  | 'total_paid';
+
 export type CustomersTableType = {
   id: string;
   name: string;
   email: string;
   image_url: string;
   total_invoices: number;
+  all_invoices: number; // Including ones in the trash, which still block deleting the customer
+  total_pending: number;
+  total_paid: number;
+};
+
+// Totals are in cents of the base currency
+export type CustomersExportRow = {
+  id: string;
+  name: string;
+  email: string;
+  total_invoices: number;
   total_pending: number;
   total_paid: number;
 };
@@ -85,4 +263,101 @@ export type InvoiceForm = {
   customer_id: string;
   amount: number;
   status: 'pending' | 'paid';
+  payment_terms: PaymentTerms;
+  currency: Currency;
+  tax_rate: number;
+  // Discount in dollars (or the invoice currency's main unit)
+  discount: number;
+  items: InvoiceItemForm[];
+};
+
+// Line items as shown in the invoice forms, with unit_price in dollars
+export type InvoiceItemForm = Pick<
+  InvoiceItem,
+  'description' | 'quantity' | 'unit_price'
+>;
+
+// Everything printed on an invoice. Amounts are in cents of the invoice currency.
+export type InvoiceDocument = {
+  id: string;
+  customer_name: string;
+  customer_email: string;
+  date: string;
+  due_date: string;
+  payment_terms: PaymentTerms;
+  paid_at: string | null;
+  status: InvoiceDisplayStatus;
+  currency: Currency;
+  tax_rate: number;
+  discount: number;
+  subtotal: number;
+  tax: number;
+  amount: number;
+  balance: number; // What is still owed after payments
+  items: Pick<InvoiceItem, 'description' | 'quantity' | 'unit_price'>[];
+};
+
+export type PaymentMethod = 'bank_transfer' | 'card' | 'cash' | 'cheque' | 'other';
+
+// Amounts are in cents of the invoice's currency
+export type Payment = {
+  id: string;
+  invoice_id: string;
+  amount: number;
+  date: string;
+  method: PaymentMethod;
+  reference: string | null;
+};
+
+export type CustomerInvoicesTable = {
+  id: string;
+  amount: number;
+  currency: Currency;
+  date: string;
+  due_date: string;
+  status: InvoiceDisplayStatus;
+  paid_at: string | null;
+};
+
+export type CustomerMonthlyTotals = {
+  month: string;
+  paid: number;
+  pending: number;
+};
+
+export type ImportType = 'invoices' | 'customers';
+
+// One invoice or customer in a CSV import report. An invoice can span
+// several rows of the file, one per line item.
+export type ImportRow = {
+  rows: number[];
+  summary: string;
+  errors: string[];
+};
+
+export type AuditEntityType = 'invoice' | 'customer' | 'payment' | 'user';
+
+// Invoices are soft deleted, so they can also be restored from the trash or
+// purged from it for good
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'purge';
+
+// Changed fields of an audited row, with their values before and after
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export type AuditEntry = {
+  id: string;
+  user_email: string | null;
+  action: AuditAction;
+  entity_type: AuditEntityType;
+  entity_id: string;
+  changes: AuditChanges;
+  created_at: string;
+};
+
+export type AuditLogFilters = {
+  entity?: AuditEntityType;
+  action?: AuditAction;
+  user?: string;
+  from?: string;
+  to?: string;
 };
@@ -0,0 +1,133 @@
+import postgres from 'postgres';
+import { CredentialsSignin } from 'next-auth';
+
+const sql = postgres(process.env.POSTGRES_URL!, { ssl: 'require' });
+
+// Failed sign-ins allowed before a lockout. An IP address is shared by
+// everyone behind it, so it gets more room than a single email. Password reset
+// requests are counted the same way, whether or not they succeed, so reset
+// emails can't be used to flood an inbox.
+const MAX_FAILURES = { email: 5, ip: 20, reset_email: 3, reset_ip: 10 };
+// The first lockout lasts a minute, and each failure after it doubles the
+// next one, up to a day
+const LOCKOUT_MINUTES = 1;
+const MAX_LOCKOUT_MINUTES = 24 * 60;
+// Failures are forgotten an hour after the last one, or after the lockout ends
+const FAILURE_WINDOW = '1 hour';
+
+// How many proxies in front of the app add to x-forwarded-for. Each appends
+// the address it got the request from, so only the entry the nearest of them
+// added can be trusted; anything before it came from the client.
+const TRUSTED_PROXIES = Number(process.env.TRUSTED_PROXY_COUNT ?? 1);
+
+type Scope = keyof typeof MAX_FAILURES;
+
+// The address sign-ins are counted against for an IP lockout
+export function clientIp(headers: Headers) {
+  const forwarded =
+    headers.get('x-forwarded-for')?.split(',').map((address) => address.trim()) ?? [];
+  return (TRUSTED_PROXIES > 0 && forwarded[forwarded.length - TRUSTED_PROXIES]) || 'unknown';
+}
+
+// Thrown from authorize while an email or IP address is locked out. Auth.js
+// passes CredentialsSignin errors through to signIn, so the login action can
+// tell a lockout from a wrong password.
+export class LoginLockedError extends CredentialsSignin {
+  code = 'locked';
+
+  constructor(public lockedUntil: Date) {
+    super();
+  }
+}
+
+// The counters a sign-in attempt is tracked under
+function keys(email: string, ip: string): [Scope, string][] {
+  return [
+    ['email', email.toLowerCase()],
+    ['ip', ip],
+  ];
+}
+
+// The counters a password reset request is tracked under
+function resetKeys(email: string, ip: string): [Scope, string][] {
+  return [
+    ['reset_email', email.toLowerCase()],
+    ['reset_ip', ip],
+  ];
+}
+
+// When the counters can next be tried, if any of them is locked out
+async function lockedUntil(counters: [Scope, string][]) {
+  const [lock] = await sql<{ locked_until: Date | null }[]>`
+    SELECT MAX(locked_until) AS locked_until
+    FROM login_attempts
+    WHERE (scope, identifier) IN (
+        SELECT * FROM UNNEST(
+          ${counters.map(([scope]) => scope)}::text[],
+          ${counters.map(([, identifier]) => identifier)}::text[]
+        )
+      )
+      AND locked_until > NOW()
+  `;
+  return lock.locked_until;
+}
+
+// When the email or IP address can next try to sign in, if either is locked out
+export async function fetchLockedUntil(email: string, ip: string) {
+  return lockedUntil(keys(email, ip));
+}
+
+// When the email or IP address can next ask for a reset link, if either is
+// locked out
+export async function fetchResetLockedUntil(email: string, ip: string) {
+  return lockedUntil(resetKeys(email, ip));
+}
+
+// Counts a failed sign-in against the email and IP address, locking out
+// whichever has now failed too often
+export async function recordLoginFailure(email: string, ip: string) {
+  await recordAttempt(keys(email, ip));
+}
+
+// Counts a password reset request against the email and IP address
+export async function recordResetRequest(email: string, ip: string) {
+  await recordAttempt(resetKeys(email, ip));
+}
+
+async function recordAttempt(counters: [Scope, string][]) {
+  await sql.begin(async (sql) => {
+    for (const [scope, identifier] of counters) {
+      await sql`
+        INSERT INTO login_attempts (scope, identifier, failures)
+        VALUES (${scope}, ${identifier}, 1)
+        ON CONFLICT (scope, identifier) DO UPDATE SET
+          failures = CASE
+            WHEN GREATEST(login_attempts.last_failed_at, login_attempts.locked_until)
+              < NOW() - ${FAILURE_WINDOW}::interval
+            THEN 1
+            ELSE login_attempts.failures + 1
+          END,
+          last_failed_at = NOW()
+      `;
+      await sql`
+        UPDATE login_attempts
+        SET locked_until = NOW() + make_interval(mins => LEAST(
+          ${LOCKOUT_MINUTES} * POWER(2, LEAST(failures - ${MAX_FAILURES[scope]}, 16)),
+          ${MAX_LOCKOUT_MINUTES}
+        )::int)
+        WHERE scope = ${scope}
+          AND identifier = ${identifier}
+          AND failures >= ${MAX_FAILURES[scope]}
+      `;
+    }
+  });
+}
+
+// Forgets an email's failures once its owner signs in. The IP address keeps
+// its count, so signing in to one account can't reset guessing at others.
+export async function clearLoginFailures(email: string) {
+  await sql`
+    DELETE FROM login_attempts
+    WHERE scope = 'email' AND identifier = ${email.toLowerCase()}
+  `;
+}
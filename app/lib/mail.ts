@@ -0,0 +1,56 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+// Anything that can deliver a message. To send real mail, add a transport
+// for your provider here and select it with MAIL_TRANSPORT.
+export type MailTransport = (message: MailMessage) => Promise<void>;
+
+function format(message: MailMessage) {
+  return [
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    `Date: ${new Date().toUTCString()}`,
+    '',
+    message.text,
+  ].join('\n');
+}
+
+// Development transports: print each message to the server log, or write it
+// to a file under MAIL_DIR (.mail by default) to open later. Messages carry
+// live password reset links, so neither is allowed outside development.
+const developmentTransports: Record<string, MailTransport> = {
+  console: async (message) => {
+    console.log(`--- Mail ---\n${format(message)}\n------------`);
+  },
+  file: async (message) => {
+    const dir = process.env.MAIL_DIR || '.mail';
+    await mkdir(dir, { recursive: true });
+    const name = `${Date.now()}-${message.to.replace(/[^\w.@-]/g, '_')}.eml`;
+    await writeFile(path.join(dir, name), format(message));
+  },
+};
+
+// Transports that deliver real mail, by their MAIL_TRANSPORT name
+const transports: Record<string, MailTransport> = {};
+
+export async function sendMail(message: MailMessage) {
+  const isDevelopment = process.env.NODE_ENV === 'development';
+  const name = process.env.MAIL_TRANSPORT || (isDevelopment ? 'console' : '');
+  if (!name) throw new Error('No mail transport is set in MAIL_TRANSPORT.');
+  const transport =
+    transports[name] ?? (isDevelopment ? developmentTransports[name] : undefined);
+  if (!transport) {
+    throw new Error(
+      developmentTransports[name]
+        ? `The ${name} mail transport is only allowed in development.`
+        : `Unknown mail transport: ${name}`,
+    );
+  }
+  await transport(message);
+}
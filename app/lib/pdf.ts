@@ -0,0 +1,116 @@
+// A minimal PDF writer for simple text documents such as invoices.
+// It only supports the built-in Helvetica fonts, text and straight lines,
+// which is all we need, and keeps PDF export free of external services.
+
+export type PdfText = {
+  x: number;
+  y: number;
+  text: string;
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'right';
+};
+
+export type PdfLine = { x1: number; y1: number; x2: number; y2: number };
+
+export type PdfPage = { texts: PdfText[]; lines?: PdfLine[] };
+
+// A4 in points
+export const PAGE_WIDTH = 595;
+export const PAGE_HEIGHT = 842;
+
+// Helvetica glyph widths (per 1000 units of font size) for ASCII 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+  584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+  278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+  500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+  500, 334, 260, 334, 584,
+];
+
+// Characters outside Latin-1 that WinAnsiEncoding still has a code for
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '–': 0x96,
+  '—': 0x97,
+};
+
+// Maps text onto single-byte WinAnsi characters, replacing what can't be shown
+function toWinAnsi(text: string) {
+  return Array.from(text)
+    .map((char) => {
+      const code = char.charCodeAt(0);
+      if (WIN_ANSI_EXTRAS[char]) return String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+      if (char === '\u202f' || char === '\u2009') return ' '; // Narrow spaces from Intl
+      if (code < 256) return char;
+      return '?';
+    })
+    .join('');
+}
+
+// Approximate rendered width, used to right-align text
+export function textWidth(text: string, size: number) {
+  return Array.from(text).reduce((width, char) => {
+    const code = char.charCodeAt(0);
+    const glyph =
+      code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+    return width + (glyph * size) / 1000;
+  }, 0);
+}
+
+function escapeText(text: string) {
+  return text.replace(/[\\()]/g, (char) => `\\${char}`);
+}
+
+function renderPage(page: PdfPage) {
+  const lines = (page.lines ?? []).map(
+    (line) => `${line.x1} ${line.y1} m ${line.x2} ${line.y2} l S`,
+  );
+  const texts = page.texts.map((text) => {
+    const size = text.size ?? 10;
+    const x =
+      text.align === 'right' ? text.x - textWidth(text.text, size) : text.x;
+    return `BT /${text.bold ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(2)} ${text.y} Td (${escapeText(toWinAnsi(text.text))}) Tj ET`;
+  });
+  return ['0.8 G 0.5 w', ...lines, '0 g', ...texts].join('\n');
+}
+
+// Builds a PDF file from pages of text. Coordinates are in points from the bottom-left.
+export function createPdf(pages: PdfPage[]) {
+  // Objects 1-4 are fixed; each page then adds a page object and a content stream
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${5 + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+  ];
+  pages.forEach((page, i) => {
+    const content = renderPage(page);
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    );
+  });
+
+  // Every character is a single byte, so string offsets are byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets
+    .map((offset) => `${offset.toString().padStart(10, '0')} 00000 n \n`)
+    .join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
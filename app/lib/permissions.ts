@@ -0,0 +1,35 @@
+import { Role } from './definitions';
+
+// What each role may do. Viewers only read; exports count as reading.
+// Kept free of server imports so client components can check it too.
+export type Permission =
+  | 'manage_invoices' // Create, edit, import, delete and restore invoices
+  | 'purge_invoices' // Delete invoices from the trash for good
+  | 'record_payments'
+  | 'manage_customers' // Create, edit, import and delete customers
+  | 'view_audit_log'
+  | 'manage_users'; // Invite, edit and deactivate users, and reset passwords
+
+export const roles = [
+  'admin',
+  'accountant',
+  'viewer',
+] as const satisfies readonly Role[];
+
+const rolePermissions: Record<Role, Permission[]> = {
+  admin: [
+    'manage_invoices',
+    'purge_invoices',
+    'record_payments',
+    'manage_customers',
+    'view_audit_log',
+    'manage_users',
+  ],
+  accountant: ['manage_invoices', 'record_payments', 'manage_customers'],
+  viewer: [],
+};
+
+// Whether a role grants a permission. Without a role, nothing is allowed.
+export function can(role: Role | null | undefined, permission: Permission) {
+  return !!role && rolePermissions[role].includes(permission);
+}
@@ -1,11 +1,19 @@
 // This file contains placeholder data that you'll be replacing with real data in the Data Fetching chapter:
 // https://nextjs.org/learn/dashboard-app/fetching-data
+const organizations = [
+  {
+    id: '3958dc9e-712f-4377-85e9-fec4b6a6442a',
+    name: 'Acme',
+  },
+];
+
 const users = [
   {
     id: '410544b2-4001-4271-9855-fec4b6a6442a',
     name: 'User',
     email: 'user@nextmail.com',
     password: '123456',
+    role: 'admin',
   },
 ];
 
@@ -129,19 +137,14 @@ const invoices = [
   },
 ];
 
-const revenue = [
-  { month: 'Jan', revenue: 2000 },
-  { month: 'Feb', revenue: 1800 },
-  { month: 'Mar', revenue: 2200 },
-  { month: 'Apr', revenue: 2500 },
-  { month: 'May', revenue: 2300 },
-  { month: 'Jun', revenue: 3200 },
-  { month: 'Jul', revenue: 3500 },
-  { month: 'Aug', revenue: 3700 },
-  { month: 'Sep', revenue: 2500 },
-  { month: 'Oct', revenue: 2800 },
-  { month: 'Nov', revenue: 3000 },
-  { month: 'Dec', revenue: 4800 },
+// Units of USD that one unit of each currency buys
+const exchangeRates = [
+  { currency: 'USD', rate: 1 },
+  { currency: 'EUR', rate: 1.08 },
+  { currency: 'GBP', rate: 1.27 },
+  { currency: 'ZAR', rate: 0.055 },
+  { currency: 'CAD', rate: 0.73 },
+  { currency: 'AUD', rate: 0.66 },
 ];
 
-export { users, customers, invoices, revenue };
+export { organizations, users, customers, invoices, exchangeRates };
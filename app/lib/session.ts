@@ -0,0 +1,34 @@
+import { cache } from 'react';
+import { auth } from '@/auth';
+import { Role } from './definitions';
+import { can, Permission } from './permissions';
+
+// The signed-in user, as recorded in the audit log and checked against
+// permissions, and the organization they are working in
+export type Actor = {
+  id: string | null;
+  email: string | null;
+  role: Role | null;
+  organizationId: string | null;
+};
+
+// Read once per request, however many actions and buttons ask. A session
+// still waiting for its two-factor code counts as signed out.
+export const getActor = cache(async (): Promise<Actor> => {
+  const session = await auth();
+  if (session?.user?.twoFactorPending) {
+    return { id: null, email: null, role: null, organizationId: null };
+  }
+  return {
+    id: session?.user?.id ?? null,
+    email: session?.user?.email ?? null,
+    role: session?.user?.role ?? null,
+    organizationId: session?.user?.organizationId ?? null,
+  };
+});
+
+// Whether the signed-in user's role grants a permission, for hiding what
+// they can't use. Server actions check permissions again themselves.
+export async function isAllowed(permission: Permission) {
+  return can((await getActor()).role, permission);
+}
@@ -0,0 +1,63 @@
+import postgres from 'postgres';
+import { createHash, randomBytes } from 'crypto';
+import { verifyTotp } from './totp';
+
+const sql = postgres(process.env.POSTGRES_URL!, { ssl: 'require' });
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Recovery codes are random enough that a fast hash is safe, unlike passwords.
+// Dashes and case are ignored, however the code is typed back.
+function hashRecoveryCode(code: string) {
+  return createHash('sha256')
+    .update(code.toLowerCase().replace(/[\s-]/g, ''))
+    .digest('hex');
+}
+
+// Replaces a user's recovery codes with a new set, returning the codes
+// themselves. Only their hashes are stored, so this is the one chance to show them.
+export async function replaceRecoveryCodes(
+  sql: postgres.TransactionSql,
+  userId: string,
+) {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () =>
+    (randomBytes(10).toString('hex').match(/.{5}/g) ?? []).join('-'),
+  );
+  await sql`DELETE FROM two_factor_recovery_codes WHERE user_id = ${userId}`;
+  await sql`
+    INSERT INTO two_factor_recovery_codes ${sql(
+      codes.map((code) => ({ user_id: userId, code_hash: hashRecoveryCode(code) })),
+    )}
+  `;
+  return codes;
+}
+
+// Checks the second login step: a code from the user's authenticator app, or
+// one of their recovery codes. Either can only be used once.
+export async function verifySecondFactor(userId: string, code: string) {
+  const [user] = await sql<{ totp_secret: string }[]>`
+    SELECT totp_secret FROM users
+    WHERE id = ${userId} AND totp_enabled_at IS NOT NULL
+  `;
+  if (!user) return false;
+
+  const step = verifyTotp(user.totp_secret, code);
+  if (step !== null) {
+    const used = await sql`
+      UPDATE users SET totp_last_step = ${step}
+      WHERE id = ${userId}
+        AND (totp_last_step IS NULL OR totp_last_step < ${step})
+      RETURNING id
+    `;
+    return used.length > 0;
+  }
+
+  const used = await sql`
+    UPDATE two_factor_recovery_codes SET used_at = NOW()
+    WHERE user_id = ${userId}
+      AND code_hash = ${hashRecoveryCode(code)}
+      AND used_at IS NULL
+    RETURNING id
+  `;
+  return used.length > 0;
+}
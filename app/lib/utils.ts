@@ -1,12 +1,290 @@
-import { Revenue } from './definitions';
+import {
+  AgingBucket,
+  AuditAction,
+  AuditEntityType,
+  AuditLogFilters,
+  Currency,
+  CustomersSortColumn,
+  InvoiceCursor,
+  InvoiceDisplayStatus,
+  InvoiceFilters,
+  InvoicesSortColumn,
+  PaymentMethod,
+  RevenueChartOptions,
+  RevenueGranularity,
+  RevenueRange,
+  Sort,
+} from './definitions';
 
-export const formatCurrency = (amount: number) => {
-  return (amount / 100).toLocaleString('en-US', {
+// Currencies an invoice can be issued in. Each needs a row in the
+// exchange_rates table so dashboard totals can convert it.
+export const currencies = [
+  'USD',
+  'EUR',
+  'GBP',
+  'ZAR',
+  'CAD',
+  'AUD',
+] as const satisfies readonly Currency[];
+
+export const paymentMethodLabels: Record<PaymentMethod, string> = {
+  bank_transfer: 'Bank transfer',
+  card: 'Card',
+  cash: 'Cash',
+  cheque: 'Cheque',
+  other: 'Other',
+};
+
+export const paymentMethods = Object.keys(paymentMethodLabels) as [
+  PaymentMethod,
+  ...PaymentMethod[],
+];
+
+// Dashboard and customer totals are reported in this currency
+export const BASE_CURRENCY: Currency = 'USD';
+
+// Amounts are stored in hundredths of the currency unit (cents, pence, ...)
+export const formatCurrency = (
+  amount: number,
+  currency: string = BASE_CURRENCY,
+  locale: string = 'en-US',
+) => {
+  return (amount / 100).toLocaleString(locale, {
     style: 'currency',
-    currency: 'USD',
+    currency,
   });
 };
 
+// Days a deleted invoice stays in the trash before it can be purged for good
+export const TRASH_RETENTION_DAYS = 30;
+
+export const invoiceStatuses = [
+  'pending',
+  'overdue',
+  'paid',
+] as const satisfies readonly InvoiceDisplayStatus[];
+
+const isDate = (value?: string) =>
+  !!value && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value));
+
+const toAmount = (value?: string) =>
+  value && isFinite(Number(value)) ? Number(value) : undefined;
+
+// Reads the invoices list filters from search params, dropping invalid values
+export const getInvoiceFilters = (
+  params: Record<string, string | undefined> = {},
+): InvoiceFilters => {
+  const status = invoiceStatuses.find((status) => status === params.status);
+  return {
+    query: params.query || '',
+    status,
+    from: isDate(params.from) ? params.from : undefined,
+    to: isDate(params.to) ? params.to : undefined,
+    minAmount: toAmount(params.minAmount),
+    maxAmount: toAmount(params.maxAmount),
+  };
+};
+
+// Search params for links that must keep the current filters, such as exports
+export const invoiceFiltersToParams = (filters: InvoiceFilters) => {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([name, value]) => {
+    if (value !== undefined && value !== '') params.set(name, String(value));
+  });
+  return params;
+};
+
+export const auditEntityTypes = [
+  'invoice',
+  'customer',
+  'payment',
+  'user',
+] as const satisfies readonly AuditEntityType[];
+
+export const auditActions = [
+  'create',
+  'update',
+  'delete',
+  'restore',
+  'purge',
+] as const satisfies readonly AuditAction[];
+
+// Reads the audit log viewer's filters from search params, dropping invalid values
+export const getAuditLogFilters = (
+  params: Record<string, string | undefined> = {},
+): AuditLogFilters => ({
+  entity: auditEntityTypes.find((entity) => entity === params.entity),
+  action: auditActions.find((action) => action === params.action),
+  user: params.user || undefined,
+  from: isDate(params.from) ? params.from : undefined,
+  to: isDate(params.to) ? params.to : undefined,
+});
+
+export const agingBucketLabels: Record<AgingBucket, string> = {
+  days_0_30: '0–30 days',
+  days_31_60: '31–60 days',
+  days_61_90: '61–90 days',
+  days_over_90: '90+ days',
+};
+
+export const agingBuckets = Object.keys(agingBucketLabels) as AgingBucket[];
+
+export const revenueRangeLabels: Record<RevenueRange, string> = {
+  '30d': 'Last 30 days',
+  quarter: 'Last 3 months',
+  year: 'Last 12 months',
+  custom: 'Custom',
+};
+
+export const revenueRanges = Object.keys(revenueRangeLabels) as RevenueRange[];
+
+export const revenueGranularities = [
+  'day',
+  'week',
+  'month',
+] as const satisfies readonly RevenueGranularity[];
+
+// Granularity each range starts with, until another is picked
+const defaultRevenueGranularity: Record<RevenueRange, RevenueGranularity> = {
+  '30d': 'day',
+  quarter: 'week',
+  year: 'month',
+  custom: 'day',
+};
+
+// Beyond this many bars they are too thin to hover, so a coarser granularity
+// is used instead. Custom ranges are also kept to five years.
+const MAX_REVENUE_PERIODS = 100;
+const MAX_REVENUE_MONTHS = 60;
+
+const shiftDate = (date: string, { days = 0, months = 0 }) => {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCMonth(shifted.getUTCMonth() + months, shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+};
+
+const startOfMonth = (date: string) => `${date.slice(0, 8)}01`;
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(to) - Date.parse(from)) / 86400000) + 1;
+
+// Roughly how many bars a range is split into
+const countPeriods = (
+  from: string,
+  to: string,
+  granularity: RevenueGranularity,
+) => {
+  if (granularity === 'day') return daysBetween(from, to);
+  if (granularity === 'week') return Math.ceil(daysBetween(from, to) / 7) + 1;
+  const [fromYear, fromMonth] = from.split('-').map(Number);
+  const [toYear, toMonth] = to.split('-').map(Number);
+  return (toYear - fromYear) * 12 + toMonth - fromMonth + 1;
+};
+
+// Reads the revenue chart's range, granularity and comparison from search
+// params. Preset ranges end today; the 3 and 12 month ones start on the
+// first of a month so the first bar isn't a partial month.
+export const getRevenueChartOptions = (
+  params: Record<string, string | undefined> = {},
+): RevenueChartOptions => {
+  const range =
+    revenueRanges.find((range) => range === params.range) ?? 'year';
+  const today = new Date().toISOString().slice(0, 10);
+
+  let from: string;
+  let to = today;
+  if (range === '30d') {
+    from = shiftDate(today, { days: -29 });
+  } else if (range === 'quarter') {
+    from = shiftDate(startOfMonth(today), { months: -2 });
+  } else if (range === 'year') {
+    from = shiftDate(startOfMonth(today), { months: -11 });
+  } else {
+    to = isDate(params.to) ? params.to! : today;
+    from =
+      isDate(params.from) && params.from! <= to
+        ? params.from!
+        : shiftDate(to, { days: -29 });
+    const earliest = shiftDate(to, { months: -MAX_REVENUE_MONTHS });
+    if (from < earliest) from = earliest;
+  }
+
+  let granularity =
+    revenueGranularities.find((granularity) => granularity === params.granularity) ??
+    defaultRevenueGranularity[range];
+  while (
+    granularity !== 'month' &&
+    countPeriods(from, to, granularity) > MAX_REVENUE_PERIODS
+  ) {
+    granularity = granularity === 'day' ? 'week' : 'month';
+  }
+
+  return { range, granularity, from, to, compare: params.compare === '1' };
+};
+
+// How far back the comparison period is: the same length as the range,
+// in whole months for the month based presets
+export const previousRevenueShift = ({ range, from, to }: RevenueChartOptions) => {
+  if (range === 'quarter') return '3 months';
+  if (range === 'year') return '12 months';
+  return `${daysBetween(from, to)} days`;
+};
+
+// Label for a revenue chart period starting on a YYYY-MM-DD date, such as
+// "Jan 5" for a day or week and "Jan" for a month
+export const formatPeriod = (
+  period: string,
+  granularity: RevenueGranularity,
+  options: Pick<Intl.DateTimeFormatOptions, 'month' | 'year'> = { month: 'short' },
+  locale: string = 'en-US',
+) => {
+  return new Date(`${period}T00:00:00Z`).toLocaleDateString(locale, {
+    day: granularity === 'month' ? undefined : 'numeric',
+    ...options,
+    timeZone: 'UTC',
+  });
+};
+
+// Cursors are written into the URL as "YYYY-MM-DD.<invoice id>"
+export const formatInvoiceCursor = (invoice: { date: string; id: string }) =>
+  `${new Date(invoice.date).toISOString().slice(0, 10)}.${invoice.id}`;
+
+export const parseInvoiceCursor = (value?: string): InvoiceCursor | undefined => {
+  const match = value?.match(/^(\d{4}-\d{2}-\d{2})\.([0-9a-f-]{36})$/i);
+  return match && isDate(match[1]) ? { date: match[1], id: match[2] } : undefined;
+};
+
+// Columns the tables may be sorted by; anything else in ?sort= is ignored
+export const invoicesSortColumns = [
+  'relevance',
+  'name',
+  'email',
+  'amount',
+  'date',
+  'due_date',
+  'status',
+] as const satisfies readonly InvoicesSortColumn[];
+
+export const customersSortColumns = [
+  'relevance',
+  'name',
+  'email',
+  'total_invoices',
+  'total_pending',
+  'total_paid',
+] as const satisfies readonly CustomersSortColumn[];
+
+// Reads ?sort= and ?dir= from search params, falling back to the table's default
+export const getSort = <Column extends string>(
+  params: Record<string, string | undefined> = {},
+  columns: readonly Column[],
+  defaultSort: Sort<Column>,
+): Sort<Column> => {
+  const column = columns.find((column) => column === params.sort);
+  if (!column) return defaultSort;
+  return { column, dir: params.dir === 'desc' ? 'desc' : 'asc' };
+};
+
 export const formatDateToLocal = (
   dateStr: string,
   locale: string = 'en-US',
@@ -21,18 +299,35 @@ export const formatDateToLocal = (
   return formatter.format(date);
 };
 
-export const generateYAxis = (revenue: Revenue[]) => {
-  // Calculate what labels we need to display on the y-axis
-  // based on highest record and in 1000s
+export const generateYAxis = (amounts: number[]) => {
+  // Calculate what labels we need to display on the y-axis, from the top
+  // label down to the bottom one. The axis always includes zero, so periods
+  // with no revenue, or with less than nothing, still have a scale.
   const yAxisLabels = [];
-  const highestRecord = Math.max(...revenue.map((month) => month.revenue));
-  const topLabel = Math.ceil(highestRecord / 1000) * 1000;
+  const highestRecord = Math.max(0, ...amounts);
+  const lowestRecord = Math.min(0, ...amounts);
 
-  for (let i = topLabel; i >= 0; i -= 1000) {
-    yAxisLabels.push(`$${i / 1000}K`);
+  // Step in round amounts (1, 2 or 5 times a power of ten) so there are at
+  // most five steps, and at least $1K between top and bottom
+  const roughStep = Math.max(highestRecord - lowestRecord, 100000) / 5;
+  const magnitude = 10 ** Math.floor(Math.log10(roughStep));
+  const step = [1, 2, 5, 10]
+    .map((multiple) => multiple * magnitude)
+    .find((step) => step >= roughStep)!;
+  const bottomLabel = Math.floor(lowestRecord / step) * step;
+  const topLabel =
+    Math.ceil(highestRecord / step) * step || (bottomLabel ? 0 : 5 * step);
+
+  const format = new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: BASE_CURRENCY,
+    notation: 'compact',
+  });
+  for (let i = topLabel; i >= bottomLabel; i -= step) {
+    yAxisLabels.push(format.format(i / 100)); // Revenue is in cents
   }
 
-  return { yAxisLabels, topLabel };
+  return { yAxisLabels, topLabel, bottomLabel };
 };
 
 export const generatePagination = (currentPage: number, totalPages: number) => {
@@ -0,0 +1,33 @@
+import TwoFactorForm from '@/app/ui/two-factor-form';
+import { signOut } from '@/auth';
+import { Metadata } from 'next';
+import { Suspense } from 'react';
+
+export const metadata: Metadata = {
+  title: 'Two-Factor Sign-In | Blue Dashboard',
+};
+
+// Reached after a correct password, for users with two-factor sign-in on.
+// The dashboard stays closed until a code is accepted here.
+export default function TwoFactorPage() {
+  return (
+    <main className="flex items-center justify-center md:h-screen">
+      <div className="relative mx-auto flex w-full max-w-[400px] flex-col space-y-2.5 p-4 md:-mt-32">
+        <div className="flex h-20 w-full items-end rounded-lg bg-blue-500 p-3 md:h-36" />
+        <Suspense>
+          <TwoFactorForm />
+        </Suspense>
+        <form
+          action={async () => {
+            'use server';
+            await signOut({ redirectTo: '/login' });
+          }}
+        >
+          <button className="text-sm text-blue-600 hover:underline">
+            Log in as someone else
+          </button>
+        </form>
+      </div>
+    </main>
+  );
+}
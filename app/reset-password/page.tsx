@@ -0,0 +1,26 @@
+import ResetPasswordForm from '@/app/ui/reset-password-form';
+import { Metadata } from 'next';
+import { redirect } from 'next/navigation';
+
+export const metadata: Metadata = {
+  title: 'Reset Password | Blue Dashboard',
+};
+
+// Opened from the link in a reset email. The token is only checked when the
+// form is sent, so an expired link says so then.
+export default async function ResetPasswordPage(props: {
+  searchParams?: Promise<{ token?: string }>;
+}) {
+  const searchParams = await props.searchParams;
+  const token = searchParams?.token;
+  if (!token) redirect('/forgot-password');
+
+  return (
+    <main className="flex items-center justify-center md:h-screen">
+      <div className="relative mx-auto flex w-full max-w-[400px] flex-col space-y-2.5 p-4 md:-mt-32">
+        <div className="flex h-20 w-full items-end rounded-lg bg-blue-500 p-3 md:h-36" />
+        <ResetPasswordForm token={token} />
+      </div>
+    </main>
+  );
+}
@@ -1,9 +1,55 @@
 import bcrypt from 'bcrypt';
 import postgres from 'postgres';
-import { invoices, customers, revenue, users } from '../lib/placeholder-data';
+import {
+  organizations,
+  invoices,
+  customers,
+  users,
+  exchangeRates,
+} from '../lib/placeholder-data';
 
 const sql = postgres(process.env.POSTGRES_URL!, { ssl: 'require' });
 
+async function seedOrganizations() {
+  await sql`CREATE EXTENSION IF NOT EXISTS "uuid-ossp"`;
+  await sql`
+    CREATE TABLE IF NOT EXISTS organizations (
+      id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+  `;
+
+  const insertedOrganizations = await Promise.all(
+    organizations.map(
+      (organization) => sql`
+        INSERT INTO organizations (id, name)
+        VALUES (${organization.id}, ${organization.name})
+        ON CONFLICT (id) DO NOTHING;
+      `,
+    ),
+  );
+
+  return insertedOrganizations;
+}
+
+// Adds the organization_id column to a table seeded before organizations.
+// Rows from then belong to the first organization.
+async function addOrganizationColumn(table: string, required = true) {
+  await sql`
+    ALTER TABLE ${sql(table)}
+    ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id)
+  `;
+  await sql`
+    UPDATE ${sql(table)}
+    SET organization_id = ${organizations[0].id}
+    WHERE organization_id IS NULL
+  `;
+  if (required) {
+    await sql`ALTER TABLE ${sql(table)} ALTER COLUMN organization_id SET NOT NULL`;
+  }
+}
+
 async function seedUsers() {
   await sql`CREATE EXTENSION IF NOT EXISTS "uuid-ossp"`;
   await sql`
@@ -11,9 +57,23 @@ async function seedUsers() {
       id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
       name VARCHAR(255) NOT NULL,
       email TEXT NOT NULL UNIQUE,
-      password TEXT NOT NULL
+      password TEXT NOT NULL,
+      deactivated_at TIMESTAMP,
+      password_changed_at TIMESTAMP,
+      totp_secret TEXT,
+      totp_enabled_at TIMESTAMP,
+      totp_last_step BIGINT
     );
   `;
+  // Columns added after the first release, for databases seeded before them
+  await sql`
+    ALTER TABLE users
+    ADD COLUMN IF NOT EXISTS deactivated_at TIMESTAMP,
+    ADD COLUMN IF NOT EXISTS password_changed_at TIMESTAMP,
+    ADD COLUMN IF NOT EXISTS totp_secret TEXT,
+    ADD COLUMN IF NOT EXISTS totp_enabled_at TIMESTAMP,
+    ADD COLUMN IF NOT EXISTS totp_last_step BIGINT
+  `;
 
   const insertedUsers = await Promise.all(
     users.map(async (user) => {
@@ -29,24 +89,123 @@ async function seedUsers() {
   return insertedUsers;
 }
 
+// Which organizations each user belongs to, and their role in each. Users
+// from before organizations join the first one.
+async function seedMemberships() {
+  await sql`
+    CREATE TABLE IF NOT EXISTS memberships (
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+      role VARCHAR(255) NOT NULL DEFAULT 'viewer',
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (user_id, organization_id)
+    );
+  `;
+
+  // Roles used to be kept on users, the same in every organization. Their
+  // memberships start with that role, and users from before roles keep the
+  // full access they had.
+  const [{ exists: hasUserRoles }] = await sql`
+    SELECT EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_schema = current_schema()
+        AND table_name = 'users'
+        AND column_name = 'role'
+    )
+  `;
+  const userRole = hasUserRoles ? sql`users.role` : sql`'admin'`;
+  await sql`ALTER TABLE memberships ADD COLUMN IF NOT EXISTS role VARCHAR(255)`;
+  await sql`
+    UPDATE memberships SET role = ${userRole}
+    FROM users
+    WHERE users.id = memberships.user_id AND memberships.role IS NULL
+  `;
+  await sql`
+    ALTER TABLE memberships
+    ALTER COLUMN role SET DEFAULT 'viewer',
+    ALTER COLUMN role SET NOT NULL
+  `;
+
+  await Promise.all(
+    users.map(
+      (user) => sql`
+        INSERT INTO memberships (user_id, organization_id, role)
+        VALUES (${user.id}, ${organizations[0].id}, ${user.role})
+        ON CONFLICT (user_id, organization_id) DO NOTHING;
+      `,
+    ),
+  );
+  const insertedMemberships = await sql`
+    INSERT INTO memberships (user_id, organization_id, role)
+    SELECT users.id, ${organizations[0].id}, ${userRole}
+    FROM users
+    WHERE NOT EXISTS (
+      SELECT 1 FROM memberships WHERE memberships.user_id = users.id
+    );
+  `;
+
+  if (hasUserRoles) await sql`ALTER TABLE users DROP COLUMN role`;
+
+  return insertedMemberships;
+}
+
 async function seedInvoices() {
   await sql`CREATE EXTENSION IF NOT EXISTS "uuid-ossp"`;
 
   await sql`
     CREATE TABLE IF NOT EXISTS invoices (
       id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+      organization_id UUID NOT NULL REFERENCES organizations(id),
       customer_id UUID NOT NULL,
       amount INT NOT NULL,
       status VARCHAR(255) NOT NULL,
-      date DATE NOT NULL
+      date DATE NOT NULL,
+      paid_at DATE,
+      payment_terms INT NOT NULL DEFAULT 30,
+      due_date DATE NOT NULL,
+      currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+      tax_rate NUMERIC(5, 2) NOT NULL DEFAULT 0,
+      discount INT NOT NULL DEFAULT 0,
+      deleted_at TIMESTAMP
     );
   `;
+  // Columns added after the first release, for databases seeded before them
+  await sql`ALTER TABLE invoices ADD COLUMN IF NOT EXISTS paid_at DATE`;
+  await sql`
+    ALTER TABLE invoices
+    ADD COLUMN IF NOT EXISTS payment_terms INT NOT NULL DEFAULT 30
+  `;
+  await sql`ALTER TABLE invoices ADD COLUMN IF NOT EXISTS due_date DATE`;
+  await sql`
+    UPDATE invoices SET due_date = date + payment_terms WHERE due_date IS NULL
+  `;
+  await sql`ALTER TABLE invoices ALTER COLUMN due_date SET NOT NULL`;
+  await sql`
+    ALTER TABLE invoices
+    ADD COLUMN IF NOT EXISTS currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+    ADD COLUMN IF NOT EXISTS tax_rate NUMERIC(5, 2) NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS discount INT NOT NULL DEFAULT 0
+  `;
+  await sql`ALTER TABLE invoices ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP`;
+  await addOrganizationColumn('invoices');
+  // Serves the invoices list's keyset pagination, which walks (date, id)
+  // within an organization
+  await sql`DROP INDEX IF EXISTS invoices_date_id_idx`;
+  await sql`
+    CREATE INDEX IF NOT EXISTS invoices_organization_date_id_idx
+    ON invoices (organization_id, date, id)
+  `;
+  // Serves the trash, which only lists soft-deleted invoices
+  await sql`
+    CREATE INDEX IF NOT EXISTS invoices_deleted_at_idx
+    ON invoices (deleted_at) WHERE deleted_at IS NOT NULL
+  `;
 
   const insertedInvoices = await Promise.all(
     invoices.map(
       (invoice) => sql`
-        INSERT INTO invoices (customer_id, amount, status, date)
-        VALUES (${invoice.customer_id}, ${invoice.amount}, ${invoice.status}, ${invoice.date})
+        INSERT INTO invoices (organization_id, customer_id, amount, status, date, due_date)
+        VALUES (${organizations[0].id}, ${invoice.customer_id}, ${invoice.amount}, ${invoice.status}, ${invoice.date}, ${invoice.date}::date + 30)
         ON CONFLICT (id) DO NOTHING;
       `,
     ),
@@ -55,23 +214,184 @@ async function seedInvoices() {
   return insertedInvoices;
 }
 
+async function seedInvoiceItems() {
+  await sql`
+    CREATE TABLE IF NOT EXISTS invoice_items (
+      id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+      invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+      description TEXT NOT NULL,
+      quantity INT NOT NULL,
+      unit_price INT NOT NULL,
+      position INT NOT NULL DEFAULT 0
+    );
+  `;
+
+  // Invoices created before line items existed get one item for their full amount
+  const insertedInvoiceItems = await sql`
+    INSERT INTO invoice_items (invoice_id, description, quantity, unit_price)
+    SELECT invoices.id, 'Services', 1, invoices.amount
+    FROM invoices
+    WHERE NOT EXISTS (
+      SELECT 1 FROM invoice_items WHERE invoice_items.invoice_id = invoices.id
+    );
+  `;
+
+  return insertedInvoiceItems;
+}
+
+async function seedPayments() {
+  await sql`
+    CREATE TABLE IF NOT EXISTS payments (
+      id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+      invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+      amount INT NOT NULL,
+      date DATE NOT NULL,
+      method VARCHAR(32) NOT NULL,
+      reference VARCHAR(255),
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+  `;
+  await sql`
+    CREATE INDEX IF NOT EXISTS payments_invoice_id_idx ON payments (invoice_id)
+  `;
+
+  // Invoices marked paid before payments were recorded get one payment for their full amount
+  const insertedPayments = await sql`
+    INSERT INTO payments (invoice_id, amount, date, method, reference)
+    SELECT invoices.id, invoices.amount, COALESCE(invoices.paid_at, invoices.date), 'other', 'Paid before payments were recorded'
+    FROM invoices
+    WHERE invoices.status = 'paid' AND NOT EXISTS (
+      SELECT 1 FROM payments WHERE payments.invoice_id = invoices.id
+    );
+  `;
+
+  return insertedPayments;
+}
+
+async function seedAuditLog() {
+  await sql`CREATE EXTENSION IF NOT EXISTS "uuid-ossp"`;
+  await sql`
+    CREATE TABLE IF NOT EXISTS audit_log (
+      id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+      organization_id UUID REFERENCES organizations(id),
+      user_id UUID,
+      user_email TEXT,
+      action VARCHAR(16) NOT NULL,
+      entity_type VARCHAR(32) NOT NULL,
+      entity_id UUID NOT NULL,
+      changes JSONB NOT NULL DEFAULT '{}',
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+  `;
+  // Changes to a user's own account, such as resetting their password, aren't
+  // made in any one organization, so the column stays optional
+  await addOrganizationColumn('audit_log', false);
+  // The viewer lists an organization's entries newest first and links
+  // entries to one entity's history
+  await sql`DROP INDEX IF EXISTS audit_log_created_at_idx`;
+  await sql`
+    CREATE INDEX IF NOT EXISTS audit_log_organization_created_at_idx
+    ON audit_log (organization_id, created_at DESC)
+  `;
+  await sql`
+    CREATE INDEX IF NOT EXISTS audit_log_entity_idx ON audit_log (entity_type, entity_id)
+  `;
+}
+
+async function seedPasswordResetTokens() {
+  await sql`CREATE EXTENSION IF NOT EXISTS "uuid-ossp"`;
+  // Only a hash of each token is stored, so the table can't be used to reset passwords
+  await sql`
+    CREATE TABLE IF NOT EXISTS password_reset_tokens (
+      id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      token_hash TEXT NOT NULL UNIQUE,
+      expires_at TIMESTAMPTZ NOT NULL,
+      used_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+  `;
+}
+
+async function seedTwoFactorRecoveryCodes() {
+  await sql`CREATE EXTENSION IF NOT EXISTS "uuid-ossp"`;
+  // Hashed like reset tokens, and each usable once in place of an authenticator code
+  await sql`
+    CREATE TABLE IF NOT EXISTS two_factor_recovery_codes (
+      id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      code_hash TEXT NOT NULL,
+      used_at TIMESTAMPTZ
+    );
+  `;
+}
+
+async function seedLoginAttempts() {
+  // Failed sign-ins counted per email and per IP address, shared by every
+  // server instance
+  await sql`
+    CREATE TABLE IF NOT EXISTS login_attempts (
+      scope VARCHAR(16) NOT NULL,
+      identifier TEXT NOT NULL,
+      failures INT NOT NULL DEFAULT 0,
+      last_failed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      locked_until TIMESTAMPTZ,
+      PRIMARY KEY (scope, identifier)
+    );
+  `;
+}
+
 async function seedCustomers() {
   await sql`CREATE EXTENSION IF NOT EXISTS "uuid-ossp"`;
+  await sql`CREATE EXTENSION IF NOT EXISTS pg_trgm`;
 
   await sql`
     CREATE TABLE IF NOT EXISTS customers (
       id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+      organization_id UUID NOT NULL REFERENCES organizations(id),
       name VARCHAR(255) NOT NULL,
       email VARCHAR(255) NOT NULL,
-      image_url VARCHAR(255) NOT NULL
+      image_url VARCHAR(255) NOT NULL,
+      search TSVECTOR GENERATED ALWAYS AS (
+        to_tsvector('simple', name || ' ' || email)
+      ) STORED
     );
   `;
+  // Columns added after the first release, for databases seeded before them
+  await sql`
+    ALTER TABLE customers
+    ADD COLUMN IF NOT EXISTS search TSVECTOR GENERATED ALWAYS AS (
+      to_tsvector('simple', name || ' ' || email)
+    ) STORED
+  `;
+  await addOrganizationColumn('customers');
+  // Emails only have to be unique within an organization, as two client
+  // businesses can share a customer
+  await sql`ALTER TABLE customers DROP CONSTRAINT IF EXISTS customers_email_key`;
+  await sql`
+    CREATE UNIQUE INDEX IF NOT EXISTS customers_organization_email_idx
+    ON customers (organization_id, email)
+  `;
+  // Full-text search uses the tsvector; trigram indexes serve typo-tolerant
+  // similarity and substring (ILIKE) matches on name and email
+  await sql`
+    CREATE INDEX IF NOT EXISTS customers_search_idx
+    ON customers USING GIN (search)
+  `;
+  await sql`
+    CREATE INDEX IF NOT EXISTS customers_name_trgm_idx
+    ON customers USING GIN (name gin_trgm_ops)
+  `;
+  await sql`
+    CREATE INDEX IF NOT EXISTS customers_email_trgm_idx
+    ON customers USING GIN (email gin_trgm_ops)
+  `;
 
   const insertedCustomers = await Promise.all(
     customers.map(
       (customer) => sql`
-        INSERT INTO customers (id, name, email, image_url)
-        VALUES (${customer.id}, ${customer.name}, ${customer.email}, ${customer.image_url})
+        INSERT INTO customers (id, organization_id, name, email, image_url)
+        VALUES (${customer.id}, ${organizations[0].id}, ${customer.name}, ${customer.email}, ${customer.image_url})
         ON CONFLICT (id) DO NOTHING;
       `,
     ),
@@ -80,34 +400,49 @@ async function seedCustomers() {
   return insertedCustomers;
 }
 
-async function seedRevenue() {
+async function seedExchangeRates() {
   await sql`
-    CREATE TABLE IF NOT EXISTS revenue (
-      month VARCHAR(4) NOT NULL UNIQUE,
-      revenue INT NOT NULL
+    CREATE TABLE IF NOT EXISTS exchange_rates (
+      currency VARCHAR(3) PRIMARY KEY,
+      rate NUMERIC(12, 6) NOT NULL
     );
   `;
 
-  const insertedRevenue = await Promise.all(
-    revenue.map(
-      (rev) => sql`
-        INSERT INTO revenue (month, revenue)
-        VALUES (${rev.month}, ${rev.revenue})
-        ON CONFLICT (month) DO NOTHING;
+  const insertedExchangeRates = await Promise.all(
+    exchangeRates.map(
+      (exchangeRate) => sql`
+        INSERT INTO exchange_rates (currency, rate)
+        VALUES (${exchangeRate.currency}, ${exchangeRate.rate})
+        ON CONFLICT (currency) DO NOTHING;
       `,
     ),
   );
 
-  return insertedRevenue;
+  return insertedExchangeRates;
 }
 
 export async function GET() {
   try {
     const result = await sql.begin((sql) => [
-      seedUsers(),
-      seedCustomers(),
-      seedInvoices(),
-      seedRevenue(),
+      // Everything else belongs to an organization, so they come first
+      seedOrganizations().then(() =>
+        Promise.all([
+          seedUsers().then(() =>
+            Promise.all([
+              seedMemberships(),
+              seedPasswordResetTokens(),
+              seedTwoFactorRecoveryCodes(),
+            ]),
+          ),
+          seedCustomers(),
+          seedInvoices().then(() =>
+            Promise.all([seedInvoiceItems(), seedPayments()]),
+          ),
+          seedAuditLog(),
+        ]),
+      ),
+      seedExchangeRates(),
+      seedLoginAttempts(),
     ]);
 
     return Response.json({ message: 'Database seeded successfully' });
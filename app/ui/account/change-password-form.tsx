@@ -0,0 +1,69 @@
+'use client';
+
+import Link from 'next/link';
+import { KeyIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/app/ui/button';
+import { changePassword, PasswordState } from '@/app/lib/actions';
+import { useActionState } from 'react';
+
+const fields = [
+  ['currentPassword', 'Current password', 'current-password'],
+  ['password', 'New password', 'new-password'],
+  ['confirmPassword', 'Confirm new password', 'new-password'],
+] as const;
+
+export default function ChangePasswordForm() {
+  const initialState: PasswordState = { message: null, errors: {} };
+  const [state, formAction] = useActionState(changePassword, initialState);
+
+  return (
+    <form action={formAction}>
+      <div className="rounded-md bg-gray-50 p-4 md:p-6">
+        {fields.map(([name, label, autoComplete]) => (
+          <div key={name} className="mb-4">
+            <label htmlFor={name} className="mb-2 block text-sm font-medium">
+              {label}
+            </label>
+            <div className="relative">
+              <input
+                id={name}
+                name={name}
+                type="password"
+                autoComplete={autoComplete}
+                className="peer block w-full rounded-md border border-gray-200 py-2 pl-10 text-sm outline-2 placeholder:text-gray-500"
+                aria-describedby={`${name}-error`}
+              />
+              <KeyIcon className="pointer-events-none absolute left-3 top-1/2 h-[18px] w-[18px] -translate-y-1/2 text-gray-500 peer-focus:text-gray-900" />
+            </div>
+            <div id={`${name}-error`} aria-live="polite" aria-atomic="true">
+              {state.errors?.[name]?.map((error: string) => (
+                <p className="mt-2 text-sm text-red-500" key={error}>
+                  {error}
+                </p>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        <div aria-live="polite" aria-atomic="true">
+          {state.message && (
+            <p
+              className={`mt-2 text-sm ${state.success ? 'text-green-600' : 'text-red-500'}`}
+            >
+              {state.message}
+            </p>
+          )}
+        </div>
+      </div>
+      <div className="mt-6 flex justify-end gap-4">
+        <Link
+          href="/dashboard"
+          className="flex h-10 items-center rounded-lg bg-gray-100 px-4 text-sm font-medium text-gray-600 transition-colors hover:bg-gray-200"
+        >
+          Cancel
+        </Link>
+        <Button type="submit">Change Password</Button>
+      </div>
+    </form>
+  );
+}
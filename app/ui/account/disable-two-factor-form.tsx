@@ -0,0 +1,46 @@
+'use client';
+
+import { KeyIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/app/ui/button';
+import { disableTwoFactor, TwoFactorState } from '@/app/lib/actions';
+import { useActionState } from 'react';
+
+export default function DisableTwoFactorForm() {
+  const initialState: TwoFactorState = { message: null, errors: {} };
+  const [state, formAction] = useActionState(disableTwoFactor, initialState);
+
+  return (
+    <form action={formAction}>
+      <div className="rounded-md bg-gray-50 p-4 md:p-6">
+        <label htmlFor="disable-password" className="mb-2 block text-sm font-medium">
+          Enter your password to turn off two-factor sign-in
+        </label>
+        <div className="relative">
+          <input
+            id="disable-password"
+            name="password"
+            type="password"
+            autoComplete="current-password"
+            className="peer block w-full rounded-md border border-gray-200 py-2 pl-10 text-sm outline-2 placeholder:text-gray-500"
+            aria-describedby="disable-password-error"
+          />
+          <KeyIcon className="pointer-events-none absolute left-3 top-1/2 h-[18px] w-[18px] -translate-y-1/2 text-gray-500 peer-focus:text-gray-900" />
+        </div>
+        <div id="disable-password-error" aria-live="polite" aria-atomic="true">
+          {state.errors?.password &&
+            state.errors.password.map((error: string) => (
+              <p className="mt-2 text-sm text-red-500" key={error}>
+                {error}
+              </p>
+            ))}
+          {state.message && (
+            <p className="mt-2 text-sm text-red-500">{state.message}</p>
+          )}
+        </div>
+      </div>
+      <div className="mt-6 flex justify-end">
+        <Button type="submit">Turn Off</Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import Link from 'next/link';
+import { DevicePhoneMobileIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/app/ui/button';
+import { enableTwoFactor, TwoFactorState } from '@/app/lib/actions';
+import { useActionState } from 'react';
+
+// Confirms a code from the newly added authenticator app, then shows the
+// recovery codes, which can't be seen again after leaving the page
+export default function EnableTwoFactorForm({ secret }: { secret: string }) {
+  const initialState: TwoFactorState = { message: null, errors: {} };
+  const [state, formAction] = useActionState(enableTwoFactor, initialState);
+
+  if (state.recoveryCodes) {
+    return (
+      <div>
+        <div className="rounded-md bg-gray-50 p-4 md:p-6">
+          <p className="mb-2 text-sm text-green-600">{state.message}</p>
+          <p className="mb-4 text-sm text-gray-500">
+            Keep these recovery codes somewhere safe. Each one signs you in
+            once if you lose your phone, and they won&apos;t be shown again.
+          </p>
+          <ul className="grid grid-cols-1 gap-2 rounded-md bg-white p-4 font-mono text-sm sm:grid-cols-2">
+            {state.recoveryCodes.map((code) => (
+              <li key={code}>{code}</li>
+            ))}
+          </ul>
+        </div>
+        <div className="mt-6 flex justify-end">
+          <Link
+            href="/dashboard/account"
+            className="flex h-10 items-center rounded-lg bg-blue-500 px-4 text-sm font-medium text-white transition-colors hover:bg-blue-400"
+          >
+            Done
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <form action={formAction}>
+      <input type="hidden" name="secret" value={secret} />
+      <div className="rounded-md bg-gray-50 p-4 md:p-6">
+        <div className="mb-4">
+          <label htmlFor="code" className="mb-2 block text-sm font-medium">
+            Code from your app
+          </label>
+          <div className="relative">
+            <input
+              id="code"
+              name="code"
+              type="text"
+              inputMode="numeric"
+              placeholder="123456"
+              autoComplete="one-time-code"
+              className="peer block w-full rounded-md border border-gray-200 py-2 pl-10 text-sm outline-2 placeholder:text-gray-500"
+              aria-describedby="code-error"
+            />
+            <DevicePhoneMobileIcon className="pointer-events-none absolute left-3 top-1/2 h-[18px] w-[18px] -translate-y-1/2 text-gray-500 peer-focus:text-gray-900" />
+          </div>
+          <div id="code-error" aria-live="polite" aria-atomic="true">
+            {state.errors?.code &&
+              state.errors.code.map((error: string) => (
+                <p className="mt-2 text-sm text-red-500" key={error}>
+                  {error}
+                </p>
+              ))}
+          </div>
+        </div>
+
+        <div aria-live="polite" aria-atomic="true">
+          {state.message && (
+            <p className="mt-2 text-sm text-red-500">{state.message}</p>
+          )}
+        </div>
+      </div>
+      <div className="mt-6 flex justify-end gap-4">
+        <Link
+          href="/dashboard/account"
+          className="flex h-10 items-center rounded-lg bg-gray-100 px-4 text-sm font-medium text-gray-600 transition-colors hover:bg-gray-200"
+        >
+          Cancel
+        </Link>
+        <Button type="submit">Turn On</Button>
+      </div>
+    </form>
+  );
+}
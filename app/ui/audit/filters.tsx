@@ -0,0 +1,91 @@
+'use client';
+
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { useDebouncedCallback } from 'use-debounce';
+import { auditActions, auditEntityTypes } from '@/app/lib/utils';
+
+const inputClassName =
+  'mt-1 block rounded-md border border-gray-200 py-[7px] px-3 text-sm outline-2 placeholder:text-gray-500';
+
+// Filter bar for the audit log. Filters live in the URL, and changing one
+// returns to the first page.
+export default function Filters() {
+  const searchParams = useSearchParams();
+  const pathname = usePathname();
+  const { replace } = useRouter();
+
+  const setFilter = (name: string, value: string) => {
+    const params = new URLSearchParams(searchParams);
+    if (value) {
+      params.set(name, value);
+    } else {
+      params.delete(name);
+    }
+    params.delete('page');
+    replace(`${pathname}?${params.toString()}`);
+  };
+  const setUser = useDebouncedCallback(setFilter, 300);
+
+  return (
+    <div className="mt-4 flex flex-wrap items-end gap-4 text-xs font-medium text-gray-500 md:mt-8">
+      <label className="grow">
+        User
+        <input
+          type="search"
+          placeholder="Filter by email..."
+          defaultValue={searchParams.get('user') ?? ''}
+          onChange={(e) => setUser('user', e.target.value)}
+          className={`${inputClassName} w-full`}
+        />
+      </label>
+      <label>
+        Entity
+        <select
+          value={searchParams.get('entity') ?? ''}
+          onChange={(e) => setFilter('entity', e.target.value)}
+          className={`${inputClassName} w-32 cursor-pointer capitalize`}
+        >
+          <option value="">All</option>
+          {auditEntityTypes.map((entity) => (
+            <option key={entity} value={entity}>
+              {entity}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label>
+        Action
+        <select
+          value={searchParams.get('action') ?? ''}
+          onChange={(e) => setFilter('action', e.target.value)}
+          className={`${inputClassName} w-32 cursor-pointer capitalize`}
+        >
+          <option value="">All</option>
+          {auditActions.map((action) => (
+            <option key={action} value={action}>
+              {action}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label>
+        From
+        <input
+          type="date"
+          value={searchParams.get('from') ?? ''}
+          onChange={(e) => setFilter('from', e.target.value)}
+          className={inputClassName}
+        />
+      </label>
+      <label>
+        To
+        <input
+          type="date"
+          value={searchParams.get('to') ?? ''}
+          onChange={(e) => setFilter('to', e.target.value)}
+          className={inputClassName}
+        />
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import Link from 'next/link';
+import clsx from 'clsx';
+import { fetchAuditLog } from '@/app/lib/data';
+import { AuditEntry, AuditLogFilters } from '@/app/lib/definitions';
+
+// Where each kind of audited entity can be viewed, if it still exists
+const entityHref: Partial<Record<AuditEntry['entity_type'], string>> = {
+  invoice: '/dashboard/invoices',
+  customer: '/dashboard/customers',
+};
+
+// Actions after which there is nothing left to link to
+const removals: AuditEntry['action'][] = ['delete', 'purge'];
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined) return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+export default async function AuditLogTable({
+  filters,
+  currentPage,
+}: {
+  filters: AuditLogFilters;
+  currentPage: number;
+}) {
+  const entries = await fetchAuditLog(filters, currentPage);
+
+  return (
+    <div className="mt-6 flow-root">
+      <div className="rounded-lg bg-gray-50 p-2">
+        {entries.length === 0 && (
+          <p className="p-4 text-sm text-gray-500">No matching changes.</p>
+        )}
+        {entries.map((entry) => {
+          const href = entityHref[entry.entity_type];
+          const entityLabel = `${entry.entity_type} #${entry.entity_id.slice(0, 8).toUpperCase()}`;
+
+          return (
+            <div key={entry.id} className="mb-2 rounded-md bg-white p-4 text-sm">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <p>
+                  <span
+                    className={clsx(
+                      'mr-2 rounded-full px-2 py-0.5 text-xs font-medium capitalize',
+                      {
+                        'bg-green-100 text-green-700':
+                          entry.action === 'create' || entry.action === 'restore',
+                        'bg-blue-100 text-blue-700': entry.action === 'update',
+                        'bg-red-100 text-red-700': removals.includes(entry.action),
+                      },
+                    )}
+                  >
+                    {entry.action}
+                  </span>
+                  {href && !removals.includes(entry.action) ? (
+                    <Link
+                      href={`${href}/${entry.entity_id}`}
+                      className="capitalize hover:text-blue-600 hover:underline"
+                    >
+                      {entityLabel}
+                    </Link>
+                  ) : (
+                    <span className="capitalize">{entityLabel}</span>
+                  )}
+                </p>
+                <p className="text-gray-500">
+                  {entry.user_email ?? 'Unknown user'} ·{' '}
+                  {new Date(entry.created_at).toLocaleString('en-US')}
+                </p>
+              </div>
+              <dl className="mt-3 grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1">
+                {Object.entries(entry.changes).map(([field, change]) => (
+                  <div key={field} className="contents">
+                    <dt className="text-gray-500">{field}</dt>
+                    <dd className="break-all">
+                      {entry.action === 'update' && (
+                        <>
+                          <span className="text-red-600 line-through">
+                            {formatValue(change.before)}
+                          </span>{' '}
+                          →{' '}
+                        </>
+                      )}
+                      <span
+                        className={clsx({
+                          'text-green-700': entry.action === 'update',
+                        })}
+                      >
+                        {formatValue(
+                          removals.includes(entry.action)
+                            ? change.before
+                            : change.after,
+                        )}
+                      </span>
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+'use client';
+
+import { useActionState, useRef } from 'react';
+import { ConfirmState } from '@/app/lib/actions';
+import { Button } from '@/app/ui/button';
+
+// An icon button that asks for confirmation in a modal dialog before running
+// a server action. The dialog closes once the action succeeds, and shows the
+// message of one that fails.
+export default function ConfirmDialog({
+  action,
+  title,
+  description,
+  confirmLabel,
+  children,
+}: {
+  action: (prevState: ConfirmState) => Promise<ConfirmState>;
+  title: string;
+  description: string;
+  confirmLabel: string;
+  children: React.ReactNode;
+}) {
+  const dialogRef = useRef<HTMLDialogElement>(null);
+  const [state, formAction, isPending] = useActionState(
+    async (prevState: ConfirmState) => {
+      const result = await action(prevState);
+      if (!result.message) dialogRef.current?.close();
+      return result;
+    },
+    {},
+  );
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => dialogRef.current?.showModal()}
+        className="rounded-md border p-2 hover:bg-gray-100"
+      >
+        {children}
+      </button>
+      <dialog
+        ref={dialogRef}
+        className="w-full max-w-sm rounded-lg p-6 text-left text-sm backdrop:bg-gray-900/50"
+      >
+        <h2 className="text-base font-medium text-gray-900">{title}</h2>
+        <p className="mt-2 whitespace-normal text-gray-500">{description}</p>
+        <div aria-live="polite" aria-atomic="true">
+          {state.message && (
+            <p className="mt-2 whitespace-normal text-red-500">
+              {state.message}
+            </p>
+          )}
+        </div>
+        <form action={formAction} className="mt-6 flex justify-end gap-4">
+          <button
+            type="button"
+            onClick={() => dialogRef.current?.close()}
+            className="flex h-10 items-center rounded-lg bg-gray-100 px-4 font-medium text-gray-600 transition-colors hover:bg-gray-200"
+          >
+            Cancel
+          </button>
+          <Button type="submit" aria-disabled={isPending} disabled={isPending}>
+            {confirmLabel}
+          </Button>
+        </form>
+      </dialog>
+    </>
+  );
+}
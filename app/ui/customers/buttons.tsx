@@ -0,0 +1,106 @@
+import {
+  ArrowDownTrayIcon,
+  ArrowUpTrayIcon,
+  PencilIcon,
+  PlusIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
+import Link from 'next/link';
+import { deleteCustomer } from '@/app/lib/actions';
+import { isAllowed } from '@/app/lib/session';
+import ConfirmDialog from '@/app/ui/confirm-dialog';
+
+// Buttons that change data render nothing for roles that can't use them
+
+export async function CreateCustomer() {
+  if (!(await isAllowed('manage_customers'))) return null;
+
+  return (
+    <Link
+      href="/dashboard/customers/create"
+      className="flex h-10 items-center rounded-lg bg-blue-600 px-4 text-sm font-medium text-white transition-colors hover:bg-blue-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-blue-600"
+    >
+      <span className="hidden md:block">Create Customer</span>{' '}
+      <PlusIcon className="h-5 md:ml-4" />
+    </Link>
+  );
+}
+
+export async function ImportCustomers() {
+  if (!(await isAllowed('manage_customers'))) return null;
+
+  return (
+    <Link
+      href="/dashboard/customers/import"
+      className="flex h-10 items-center rounded-lg border border-gray-200 px-4 text-sm font-medium text-gray-600 transition-colors hover:bg-gray-100"
+    >
+      <span className="hidden md:block">Import</span>{' '}
+      <ArrowUpTrayIcon className="h-5 md:ml-4" />
+    </Link>
+  );
+}
+
+export function ExportCustomers({ query }: { query: string }) {
+  const params = new URLSearchParams(query ? { query } : {});
+  return (
+    <a
+      href={`/dashboard/customers/export?${params.toString()}`}
+      className="flex h-10 items-center rounded-lg border border-gray-200 px-4 text-sm font-medium text-gray-600 transition-colors hover:bg-gray-100"
+    >
+      <span className="hidden md:block">Export</span>{' '}
+      <ArrowDownTrayIcon className="h-5 md:ml-4" />
+    </a>
+  );
+}
+
+export async function UpdateCustomer({ id }: { id: string }) {
+  if (!(await isAllowed('manage_customers'))) return null;
+
+  return (
+    <Link
+      href={`/dashboard/customers/${id}/edit`}
+      className="rounded-md border p-2 hover:bg-gray-100"
+    >
+      <PencilIcon className="w-5" />
+    </Link>
+  );
+}
+
+export async function DeleteCustomer({
+  id,
+  allInvoices,
+}: {
+  id: string;
+  allInvoices: number;
+}) {
+  if (!(await isAllowed('manage_customers'))) return null;
+
+  // Customers with invoices, even in the trash, can't be deleted; the action
+  // counts them the same way.
+  if (Number(allInvoices) > 0) {
+    return (
+      <button
+        type="button"
+        disabled
+        title="Customers with invoices, including ones in the trash, cannot be deleted."
+        className="cursor-not-allowed rounded-md border p-2 text-gray-300"
+      >
+        <span className="sr-only">Delete</span>
+        <TrashIcon className="w-5" />
+      </button>
+    );
+  }
+
+  const deleteCustomerWithId = deleteCustomer.bind(null, id);
+  return (
+    <ConfirmDialog
+      action={deleteCustomerWithId}
+      title="Delete this customer?"
+      description="They will be deleted for good. This cannot be undone."
+      confirmLabel="Delete"
+    >
+      <span className="sr-only">Delete</span>
+      <TrashIcon className="w-5" />
+    </ConfirmDialog>
+  );
+}
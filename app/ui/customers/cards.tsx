@@ -0,0 +1,30 @@
+import { Card } from '@/app/ui/dashboard/cards';
+import { fetchCustomerStats } from '@/app/lib/data';
+
+export default async function CustomerCards({
+  customerId,
+}: {
+  customerId: string;
+}) {
+  const {
+    numberOfInvoices,
+    totalPaidInvoices,
+    totalPendingInvoices,
+    totalOverdueInvoices,
+    averageDaysToPay,
+  } = await fetchCustomerStats(customerId);
+
+  return (
+    <>
+      <Card title="Collected" value={totalPaidInvoices} type="collected" />
+      <Card title="Pending" value={totalPendingInvoices} type="pending" />
+      <Card title="Overdue" value={totalOverdueInvoices} type="overdue" />
+      <Card title="Total Invoices" value={numberOfInvoices} type="invoices" />
+      <Card
+        title="Average Days to Pay"
+        value={averageDaysToPay ?? '-'}
+        type="days"
+      />
+    </>
+  );
+}
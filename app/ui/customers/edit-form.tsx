@@ -0,0 +1,127 @@
+'use client';
+
+import Link from 'next/link';
+import {
+  AtSymbolIcon,
+  PhotoIcon,
+  UserCircleIcon,
+} from '@heroicons/react/24/outline';
+import { Button } from '@/app/ui/button';
+import { updateCustomer, CustomerState } from '@/app/lib/actions';
+import { Customer } from '@/app/lib/definitions';
+import { useActionState } from 'react';
+
+export default function EditCustomerForm({
+  customer,
+}: {
+  customer: Customer;
+}) {
+  const initialState: CustomerState = { message: null, errors: {} };
+  const updateCustomerWithId = updateCustomer.bind(null, customer.id);
+  const [state, formAction] = useActionState(
+    updateCustomerWithId,
+    initialState,
+  );
+
+  return (
+    <form action={formAction}>
+      <div className="rounded-md bg-gray-50 p-4 md:p-6">
+        {/* Customer Name */}
+        <div className="mb-4">
+          <label htmlFor="name" className="mb-2 block text-sm font-medium">
+            Name
+          </label>
+          <div className="relative">
+            <input
+              id="name"
+              name="name"
+              defaultValue={customer.name}
+              type="text"
+              placeholder="Enter customer name"
+              className="peer block w-full rounded-md border border-gray-200 py-2 pl-10 text-sm outline-2 placeholder:text-gray-500"
+              aria-describedby="name-error"
+            />
+            <UserCircleIcon className="pointer-events-none absolute left-3 top-1/2 h-[18px] w-[18px] -translate-y-1/2 text-gray-500 peer-focus:text-gray-900" />
+          </div>
+          <div id="name-error" aria-live="polite" aria-atomic="true">
+            {state.errors?.name &&
+              state.errors.name.map((error: string) => (
+                <p className="mt-2 text-sm text-red-500" key={error}>
+                  {error}
+                </p>
+              ))}
+          </div>
+        </div>
+
+        {/* Customer Email */}
+        <div className="mb-4">
+          <label htmlFor="email" className="mb-2 block text-sm font-medium">
+            Email
+          </label>
+          <div className="relative">
+            <input
+              id="email"
+              name="email"
+              defaultValue={customer.email}
+              type="email"
+              placeholder="Enter email address"
+              className="peer block w-full rounded-md border border-gray-200 py-2 pl-10 text-sm outline-2 placeholder:text-gray-500"
+              aria-describedby="email-error"
+            />
+            <AtSymbolIcon className="pointer-events-none absolute left-3 top-1/2 h-[18px] w-[18px] -translate-y-1/2 text-gray-500 peer-focus:text-gray-900" />
+          </div>
+          <div id="email-error" aria-live="polite" aria-atomic="true">
+            {state.errors?.email &&
+              state.errors.email.map((error: string) => (
+                <p className="mt-2 text-sm text-red-500" key={error}>
+                  {error}
+                </p>
+              ))}
+          </div>
+        </div>
+
+        {/* Customer Image */}
+        <div className="mb-4">
+          <label htmlFor="imageUrl" className="mb-2 block text-sm font-medium">
+            Profile picture
+          </label>
+          <div className="relative">
+            <input
+              id="imageUrl"
+              name="imageUrl"
+              defaultValue={customer.image_url}
+              type="text"
+              placeholder="/customers/amy-burns.png"
+              className="peer block w-full rounded-md border border-gray-200 py-2 pl-10 text-sm outline-2 placeholder:text-gray-500"
+              aria-describedby="imageUrl-error"
+            />
+            <PhotoIcon className="pointer-events-none absolute left-3 top-1/2 h-[18px] w-[18px] -translate-y-1/2 text-gray-500 peer-focus:text-gray-900" />
+          </div>
+          <div id="imageUrl-error" aria-live="polite" aria-atomic="true">
+            {state.errors?.imageUrl &&
+              state.errors.imageUrl.map((error: string) => (
+                <p className="mt-2 text-sm text-red-500" key={error}>
+                  {error}
+                </p>
+              ))}
+          </div>
+        </div>
+
+        <div aria-live="polite" aria-atomic="true">
+          {state.message && (
+            <p className="mt-2 text-sm text-red-500">{state.message}</p>
+          )}
+        </div>
+      </div>
+      <div className="mt-6 flex justify-end gap-4">
+        <Link
+          href="/dashboard/customers"
+          className="flex h-10 items-center rounded-lg bg-gray-100 px-4 text-sm font-medium text-gray-600 transition-colors hover:bg-gray-200"
+        >
+          Cancel
+        </Link>
+        <Button type="submit">Edit Customer</Button>
+      </div>
+    </form>
+  );
+}
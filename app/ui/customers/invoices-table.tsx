@@ -0,0 +1,125 @@
+import {
+  ViewInvoice,
+  DownloadInvoice,
+  UpdateInvoice,
+  DeleteInvoice,
+} from '@/app/ui/invoices/buttons';
+import InvoiceStatus from '@/app/ui/invoices/status';
+import { formatDateToLocal, formatCurrency } from '@/app/lib/utils';
+import { fetchFilteredInvoicesByCustomer } from '@/app/lib/data';
+import { InvoiceFilters } from '@/app/lib/definitions';
+
+export default async function CustomerInvoicesTable({
+  customerId,
+  filters,
+  currentPage,
+}: {
+  customerId: string;
+  filters: InvoiceFilters;
+  currentPage: number;
+}) {
+  const invoices = await fetchFilteredInvoicesByCustomer(
+    customerId,
+    filters,
+    currentPage,
+  );
+
+  return (
+    <div className="mt-6 flow-root">
+      <div className="inline-block min-w-full align-middle">
+        <div className="rounded-lg bg-gray-50 p-2 md:pt-0">
+          <div className="md:hidden">
+            {invoices?.map((invoice) => (
+              <div
+                key={invoice.id}
+                className="mb-2 w-full rounded-md bg-white p-4"
+              >
+                <div className="flex items-center justify-between border-b pb-4">
+                  <p className="text-xl font-medium">
+                    {formatCurrency(invoice.amount, invoice.currency)}
+                  </p>
+                  <InvoiceStatus status={invoice.status} />
+                </div>
+                <div className="flex w-full items-center justify-between pt-4">
+                  <div>
+                    <p>{formatDateToLocal(invoice.date)}</p>
+                    <p className="text-sm text-gray-500">
+                      Due {formatDateToLocal(invoice.due_date)}
+                    </p>
+                    {invoice.paid_at ? (
+                      <p className="text-sm text-gray-500">
+                        Paid {formatDateToLocal(invoice.paid_at)}
+                      </p>
+                    ) : null}
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <ViewInvoice id={invoice.id} />
+                    <DownloadInvoice id={invoice.id} />
+                    <UpdateInvoice id={invoice.id} />
+                    <DeleteInvoice id={invoice.id} />
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+          <table className="hidden min-w-full text-gray-900 md:table">
+            <thead className="rounded-lg text-left text-sm font-normal">
+              <tr>
+                <th scope="col" className="px-4 py-5 font-medium sm:pl-6">
+                  Amount
+                </th>
+                <th scope="col" className="px-3 py-5 font-medium">
+                  Date
+                </th>
+                <th scope="col" className="px-3 py-5 font-medium">
+                  Due
+                </th>
+                <th scope="col" className="px-3 py-5 font-medium">
+                  Paid On
+                </th>
+                <th scope="col" className="px-3 py-5 font-medium">
+                  Status
+                </th>
+                <th scope="col" className="relative py-3 pl-6 pr-3">
+                  <span className="sr-only">Edit</span>
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white">
+              {invoices?.map((invoice) => (
+                <tr
+                  key={invoice.id}
+                  className="w-full border-b py-3 text-sm last-of-type:border-none [&:first-child>td:first-child]:rounded-tl-lg [&:first-child>td:last-child]:rounded-tr-lg [&:last-child>td:first-child]:rounded-bl-lg [&:last-child>td:last-child]:rounded-br-lg"
+                >
+                  <td className="whitespace-nowrap py-3 pl-6 pr-3">
+                    {formatCurrency(invoice.amount, invoice.currency)}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-3">
+                    {formatDateToLocal(invoice.date)}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-3">
+                    {formatDateToLocal(invoice.due_date)}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-3">
+                    {invoice.paid_at ? formatDateToLocal(invoice.paid_at) : '-'}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-3">
+                    <InvoiceStatus status={invoice.status} />
+                  </td>
+                  <td className="whitespace-nowrap py-3 pl-6 pr-3">
+                    <div className="flex justify-end gap-3">
+                      <ViewInvoice id={invoice.id} />
+                      <DownloadInvoice id={invoice.id} />
+                      <UpdateInvoice id={invoice.id} />
+                      <DeleteInvoice id={invoice.id} />
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { CalendarIcon } from '@heroicons/react/24/outline';
+import { lusitana } from '@/app/ui/fonts';
+import { fetchCustomerMonthlyTotals } from '@/app/lib/data';
+import { formatCurrency } from '@/app/lib/utils';
+
+export default async function MonthlyTotals({
+  customerId,
+}: {
+  customerId: string;
+}) {
+  const monthlyTotals = await fetchCustomerMonthlyTotals(customerId);
+  const highestMonth = Math.max(
+    ...monthlyTotals.map((month) => month.paid + month.pending),
+    1,
+  );
+
+  return (
+    <div className="w-full md:col-span-4">
+      <h2 className={`${lusitana.className} mb-4 text-xl md:text-2xl`}>
+        Paid vs. Pending
+      </h2>
+      <div className="rounded-xl bg-gray-50 p-4">
+        <div className="space-y-3 rounded-md bg-white p-4">
+          {monthlyTotals.length === 0 ? (
+            <p className="text-sm text-gray-400">No invoices yet.</p>
+          ) : null}
+          {monthlyTotals.map((month) => (
+            <div key={month.month} className="flex items-center gap-4 text-sm">
+              <p className="w-16 shrink-0 text-gray-400">{month.month}</p>
+              <div className="flex h-4 grow overflow-hidden rounded-md bg-gray-100">
+                <div
+                  className="bg-green-500"
+                  style={{ width: `${(month.paid / highestMonth) * 100}%` }}
+                  title={`Paid ${formatCurrency(month.paid)}`}
+                />
+                <div
+                  className="bg-blue-300"
+                  style={{ width: `${(month.pending / highestMonth) * 100}%` }}
+                  title={`Pending ${formatCurrency(month.pending)}`}
+                />
+              </div>
+              <p className="w-24 shrink-0 text-right">
+                {formatCurrency(month.paid + month.pending)}
+              </p>
+            </div>
+          ))}
+        </div>
+        <div className="flex items-center gap-4 pb-2 pt-6 text-sm text-gray-500">
+          <CalendarIcon className="h-5 w-5" />
+          <span className="flex items-center gap-1">
+            <span className="h-3 w-3 rounded-sm bg-green-500" /> Paid
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="h-3 w-3 rounded-sm bg-blue-300" /> Pending
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,22 +1,24 @@
 import Image from 'next/image';
-import { lusitana } from '@/app/ui/fonts';
-import Search from '@/app/ui/search';
-import {
-  CustomersTableType,
-  FormattedCustomersTable,
-} from '@/app/lib/definitions';
+import Link from 'next/link';
+import { UpdateCustomer, DeleteCustomer } from '@/app/ui/customers/buttons';
+import { fetchFilteredCustomers } from '@/app/lib/data';
+import { CustomersSortColumn, Sort } from '@/app/lib/definitions';
+import SortableHeader from '@/app/ui/sortable-header';
+import Highlight from '@/app/ui/highlight';
 
 export default async function CustomersTable({
-  customers,
+  query,
+  currentPage,
+  sort,
 }: {
-  customers: FormattedCustomersTable[];
+  query: string;
+  currentPage: number;
+  sort: Sort<CustomersSortColumn>;
 }) {
+  const customers = await fetchFilteredCustomers(query, currentPage, sort);
+
   return (
     <div className="w-full">
-      <h1 className={`${lusitana.className} mb-8 text-xl md:text-2xl`}>
-        Customers
-      </h1>
-      <Search placeholder="Search customers..." />
       <div className="mt-6 flow-root">
         <div className="overflow-x-auto">
           <div className="inline-block min-w-full align-middle">
@@ -38,11 +40,16 @@ export default async function CustomersTable({
                               width={28}
                               height={28}
                             />
-                            <p>{customer.name}</p>
+                            <Link
+                              href={`/dashboard/customers/${customer.id}`}
+                              className="hover:text-blue-600 hover:underline"
+                            >
+                              <Highlight text={customer.name} query={query} />
+                            </Link>
                           </div>
                         </div>
                         <p className="text-sm text-gray-500">
-                          {customer.email}
+                          <Highlight text={customer.email} query={query} />
                         </p>
                       </div>
                     </div>
@@ -56,8 +63,15 @@ export default async function CustomersTable({
                         <p className="font-medium">{customer.total_paid}</p>
                       </div>
                     </div>
-                    <div className="pt-4 text-sm">
+                    <div className="flex items-center justify-between pt-4 text-sm">
                       <p>{customer.total_invoices} invoices</p>
+                      <div className="flex justify-end gap-2">
+                        <UpdateCustomer id={customer.id} />
+                        <DeleteCustomer
+                          id={customer.id}
+                          allInvoices={customer.all_invoices}
+                        />
+                      </div>
                     </div>
                   </div>
                 ))}
@@ -65,20 +79,38 @@ export default async function CustomersTable({
               <table className="hidden min-w-full rounded-md text-gray-900 md:table">
                 <thead className="rounded-md bg-gray-50 text-left text-sm font-normal">
                   <tr>
-                    <th scope="col" className="px-4 py-5 font-medium sm:pl-6">
-                      Name
-                    </th>
-                    <th scope="col" className="px-3 py-5 font-medium">
-                      Email
-                    </th>
-                    <th scope="col" className="px-3 py-5 font-medium">
-                      Total Invoices
-                    </th>
-                    <th scope="col" className="px-3 py-5 font-medium">
-                      Total Pending
-                    </th>
-                    <th scope="col" className="px-4 py-5 font-medium">
-                      Total Paid
+                    <SortableHeader
+                      column="name"
+                      label="Name"
+                      sort={sort}
+                      className="px-4 py-5 font-medium sm:pl-6"
+                    />
+                    <SortableHeader
+                      column="email"
+                      label="Email"
+                      sort={sort}
+                      className="px-3 py-5 font-medium"
+                    />
+                    <SortableHeader
+                      column="total_invoices"
+                      label="Total Invoices"
+                      sort={sort}
+                      className="px-3 py-5 font-medium"
+                    />
+                    <SortableHeader
+                      column="total_pending"
+                      label="Total Pending"
+                      sort={sort}
+                      className="px-3 py-5 font-medium"
+                    />
+                    <SortableHeader
+                      column="total_paid"
+                      label="Total Paid"
+                      sort={sort}
+                      className="px-4 py-5 font-medium"
+                    />
+                    <th scope="col" className="relative py-3 pl-6 pr-3">
+                      <span className="sr-only">Edit</span>
                     </th>
                   </tr>
                 </thead>
@@ -95,11 +127,16 @@ export default async function CustomersTable({
                             width={28}
                             height={28}
                           />
-                          <p>{customer.name}</p>
+                          <Link
+                            href={`/dashboard/customers/${customer.id}`}
+                            className="hover:text-blue-600 hover:underline"
+                          >
+                            <Highlight text={customer.name} query={query} />
+                          </Link>
                         </div>
                       </td>
                       <td className="whitespace-nowrap bg-white px-4 py-5 text-sm">
-                        {customer.email}
+                        <Highlight text={customer.email} query={query} />
                       </td>
                       <td className="whitespace-nowrap bg-white px-4 py-5 text-sm">
                         {customer.total_invoices}
@@ -107,9 +144,18 @@ export default async function CustomersTable({
                       <td className="whitespace-nowrap bg-white px-4 py-5 text-sm">
                         {customer.total_pending}
                       </td>
-                      <td className="whitespace-nowrap bg-white px-4 py-5 text-sm group-first-of-type:rounded-md group-last-of-type:rounded-md">
+                      <td className="whitespace-nowrap bg-white px-4 py-5 text-sm">
                         {customer.total_paid}
                       </td>
+                      <td className="whitespace-nowrap bg-white py-5 pl-6 pr-3 group-first-of-type:rounded-md group-last-of-type:rounded-md">
+                        <div className="flex justify-end gap-3">
+                          <UpdateCustomer id={customer.id} />
+                          <DeleteCustomer
+                            id={customer.id}
+                            allInvoices={customer.all_invoices}
+                          />
+                        </div>
+                      </td>
                     </tr>
                   ))}
                 </tbody>
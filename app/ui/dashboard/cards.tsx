@@ -1,6 +1,8 @@
 import {
   BanknotesIcon,
+  CalendarDaysIcon,
   ClockIcon,
+  ExclamationCircleIcon,
   UserGroupIcon,
   InboxIcon,
 } from '@heroicons/react/24/outline';
@@ -11,7 +13,9 @@ const iconMap = {
   collected: BanknotesIcon,
   customers: UserGroupIcon,
   pending: ClockIcon,
+  overdue: ExclamationCircleIcon,
   invoices: InboxIcon,
+  days: CalendarDaysIcon,
 };
 
 export default async function CardWrapper() {
@@ -20,6 +24,7 @@ export default async function CardWrapper() {
     numberOfCustomers,
     totalPaidInvoices,
     totalPendingInvoices,
+    totalOverdueInvoices,
   } = await fetchCardData();
   return (
     <>
@@ -27,6 +32,7 @@ export default async function CardWrapper() {
 
       <Card title="Collected" value={totalPaidInvoices} type="collected" />
       <Card title="Pending" value={totalPendingInvoices} type="pending" />
+      <Card title="Overdue" value={totalOverdueInvoices} type="overdue" />
       <Card title="Total Invoices" value={numberOfInvoices} type="invoices" />
       <Card
         title="Total Customers"
@@ -44,7 +50,7 @@ export function Card({
 }: {
   title: string;
   value: number | string;
-  type: 'invoices' | 'customers' | 'pending' | 'collected';
+  type: 'invoices' | 'customers' | 'pending' | 'overdue' | 'collected' | 'days';
 }) {
   const Icon = iconMap[type];
 
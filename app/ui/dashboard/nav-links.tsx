@@ -4,15 +4,27 @@ import {
   UserGroupIcon,
   HomeIcon,
   DocumentDuplicateIcon,
+  ClipboardDocumentListIcon,
+  UsersIcon,
+  UserCircleIcon,
+  ChartBarIcon,
 } from '@heroicons/react/24/outline';
 import { usePathname } from 'next/navigation';
 import clsx from 'clsx';
+import { Role } from '@/app/lib/definitions';
+import { can, Permission } from '@/app/lib/permissions';
 
   import Link from 'next/link';
 
 // Map of links to display in the side navigation.
 // Depending on the size of the application, this would be stored in a database.
-const links = [
+// Links with a permission are only shown to roles that have it.
+const links: {
+  name: string;
+  href: string;
+  icon: typeof HomeIcon;
+  permission?: Permission;
+}[] = [
   { name: 'Home', 
     href: '/dashboard', 
     icon: HomeIcon 
@@ -26,13 +38,38 @@ const links = [
     href: '/dashboard/customers', 
     icon: UserGroupIcon 
   },
+  {
+    name: 'Aging report',
+    href: '/dashboard/reports/aging',
+    icon: ChartBarIcon,
+  },
+  {
+    name: 'Audit log',
+    href: '/dashboard/audit',
+    icon: ClipboardDocumentListIcon,
+    permission: 'view_audit_log',
+  },
+  {
+    name: 'Users',
+    href: '/dashboard/users',
+    icon: UsersIcon,
+    permission: 'manage_users',
+  },
+  {
+    name: 'Account',
+    href: '/dashboard/account',
+    icon: UserCircleIcon,
+  },
 ];
 
-export default function NavLinks() {
+export default function NavLinks({ role }: { role: Role | null }) {
   const pathname = usePathname();
+  const visibleLinks = links.filter(
+    (link) => !link.permission || can(role, link.permission),
+  );
   return (
     <>
-      {links.map((link) => {
+      {visibleLinks.map((link) => {
         const LinkIcon = link.icon;
         return (
           <Link
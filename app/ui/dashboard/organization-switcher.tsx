@@ -0,0 +1,37 @@
+'use client';
+
+import { BuildingOfficeIcon } from '@heroicons/react/24/outline';
+import { switchOrganization } from '@/app/lib/actions';
+import { Organization } from '@/app/lib/definitions';
+
+// Lets users who belong to several organizations choose whose data they see.
+// Picking one submits straight away.
+export default function OrganizationSwitcher({
+  organizations,
+  activeId,
+}: {
+  organizations: Organization[];
+  activeId: string | null;
+}) {
+  return (
+    <form action={switchOrganization} className="relative">
+      <label htmlFor="organizationId" className="sr-only">
+        Organization
+      </label>
+      <select
+        id="organizationId"
+        name="organizationId"
+        defaultValue={activeId ?? undefined}
+        onChange={(e) => e.currentTarget.form?.requestSubmit()}
+        className="block h-[48px] w-full cursor-pointer rounded-md border-0 bg-gray-50 pl-10 text-sm font-medium hover:bg-sky-100 hover:text-blue-600"
+      >
+        {organizations.map((organization) => (
+          <option key={organization.id} value={organization.id}>
+            {organization.name}
+          </option>
+        ))}
+      </select>
+      <BuildingOfficeIcon className="pointer-events-none absolute left-3 top-1/2 h-[18px] w-[18px] -translate-y-1/2 text-gray-500" />
+    </form>
+  );
+}
@@ -0,0 +1,114 @@
+'use client';
+
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { RevenueChartOptions } from '@/app/lib/definitions';
+import {
+  revenueGranularities,
+  revenueRangeLabels,
+  revenueRanges,
+} from '@/app/lib/utils';
+
+const inputClassName =
+  'mt-1 block rounded-md border border-gray-200 py-[7px] px-3 text-sm outline-2';
+
+// Range, granularity and comparison pickers for the revenue chart. Each is
+// kept in the URL so a chart can be shared as it is shown. The options are
+// the ones the server settled on, which may differ from the URL, such as a
+// coarser granularity for a long range.
+export default function RevenueChartControls({
+  options,
+}: {
+  options: RevenueChartOptions;
+}) {
+  const searchParams = useSearchParams();
+  const pathname = usePathname();
+  const { replace } = useRouter();
+
+  const update = (changes: Record<string, string | null>) => {
+    const params = new URLSearchParams(searchParams);
+    Object.entries(changes).forEach(([name, value]) => {
+      if (value) {
+        params.set(name, value);
+      } else {
+        params.delete(name);
+      }
+    });
+    replace(`${pathname}?${params.toString()}`, { scroll: false });
+  };
+
+  // A new range starts with its own granularity. A custom one starts from
+  // the dates being shown, so it can be adjusted from there.
+  const setRange = (range: string) =>
+    update({
+      range,
+      granularity: null,
+      from: range === 'custom' ? options.from : null,
+      to: range === 'custom' ? options.to : null,
+    });
+
+  return (
+    <div className="flex flex-wrap items-end gap-3 text-xs font-medium text-gray-500">
+      <label>
+        Range
+        <select
+          value={options.range}
+          onChange={(e) => setRange(e.target.value)}
+          className={`${inputClassName} cursor-pointer`}
+        >
+          {revenueRanges.map((range) => (
+            <option key={range} value={range}>
+              {revenueRangeLabels[range]}
+            </option>
+          ))}
+        </select>
+      </label>
+      {options.range === 'custom' && (
+        <>
+          <label>
+            From
+            <input
+              type="date"
+              value={options.from}
+              max={options.to}
+              onChange={(e) => update({ from: e.target.value })}
+              className={inputClassName}
+            />
+          </label>
+          <label>
+            To
+            <input
+              type="date"
+              value={options.to}
+              min={options.from}
+              onChange={(e) => update({ to: e.target.value })}
+              className={inputClassName}
+            />
+          </label>
+        </>
+      )}
+      <label>
+        By
+        <select
+          value={options.granularity}
+          onChange={(e) => update({ granularity: e.target.value })}
+          className={`${inputClassName} cursor-pointer capitalize`}
+        >
+          {revenueGranularities.map((granularity) => (
+            <option key={granularity} value={granularity}>
+              {granularity}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex h-[38px] cursor-pointer items-center gap-2 text-sm font-normal text-gray-600">
+        <input
+          type="checkbox"
+          checked={options.compare}
+          onChange={(e) => update({ compare: e.target.checked ? '1' : null })}
+          className="h-4 w-4 cursor-pointer rounded border-gray-300"
+        />
+        Compare with previous period
+      </label>
+    </div>
+  );
+}
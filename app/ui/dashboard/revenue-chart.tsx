@@ -1,19 +1,48 @@
-import { generateYAxis } from '@/app/lib/utils';
+import {
+  formatCurrency,
+  formatDateToLocal,
+  formatPeriod,
+  generateYAxis,
+  revenueRangeLabels,
+} from '@/app/lib/utils';
+import clsx from 'clsx';
 import { CalendarIcon } from '@heroicons/react/24/outline';
 import { lusitana } from '@/app/ui/fonts';
 import { fetchRevenue } from '@/app/lib/data';
-// This component is representational only.
+import { RevenueChartOptions } from '@/app/lib/definitions';
+import RevenueChartControls from '@/app/ui/dashboard/revenue-chart-controls';
 // For data visualization UI, check out:
 // https://www.tremor.so/
 // https://www.chartjs.org/
 // https://airbnb.io/visx/
 
-export default async function RevenueChart() { // Make component async, remove the props
-  const revenue = await fetchRevenue(); // Fetch data inside the component
+// Bars are labelled below at most this often, so the labels don't overlap
+const MAX_LABELS = 12;
+
+export default async function RevenueChart({
+  options,
+}: {
+  options: RevenueChartOptions;
+}) {
+  const revenue = await fetchRevenue(options); // Fetch data inside the component
   const chartHeight = 350;
-  // NOTE: Uncomment this code in Chapter 7
 
-  const { yAxisLabels, topLabel } = generateYAxis(revenue);
+  const { yAxisLabels, topLabel, bottomLabel } = generateYAxis(
+    revenue.flatMap((period) =>
+      options.compare ? [period.revenue, period.previous] : [period.revenue],
+    ),
+  );
+  const scale = chartHeight / (topLabel - bottomLabel); // Pixels per cent
+  const zeroLine = -bottomLabel * scale; // Height of $0 above the bottom
+  // Bars grow up from $0, or down from it for negative periods
+  const barStyle = (amount: number) => ({
+    bottom: `${zeroLine + Math.min(amount, 0) * scale}px`,
+    height: `${Math.abs(amount) * scale}px`,
+  });
+
+  const labelEvery = Math.ceil(revenue.length / MAX_LABELS);
+  const total = revenue.reduce((sum, period) => sum + period.revenue, 0);
+  const previousTotal = revenue.reduce((sum, period) => sum + period.previous, 0);
 
   if (!revenue || revenue.length === 0) {
     return <p className="mt-4 text-gray-400">No data available.</p>;
@@ -24,10 +53,12 @@ export default async function RevenueChart() { // Make component async, remove t
       <h2 className={`${lusitana.className} mb-4 text-xl md:text-2xl`}>
         Recent Revenue
       </h2>
-      {/* NOTE: Uncomment this code in Chapter 7 */}
 
       <div className="rounded-xl bg-gray-50 p-4">
-        <div className="sm:grid-cols-13 mt-0 grid grid-cols-12 items-end gap-2 rounded-md bg-white p-4 md:gap-4">
+        <div className="mb-4">
+          <RevenueChartControls options={options} />
+        </div>
+        <div className="flex gap-2 rounded-md bg-white p-4 md:gap-4">
           <div
             className="mb-6 hidden flex-col justify-between text-sm text-gray-400 sm:flex"
             style={{ height: `${chartHeight}px` }}
@@ -37,23 +68,108 @@ export default async function RevenueChart() { // Make component async, remove t
             ))}
           </div>
 
-          {revenue.map((month) => (
-            <div key={month.month} className="flex flex-col items-center gap-2">
-              <div
-                className="w-full rounded-md bg-blue-300"
-                style={{
-                  height: `${(chartHeight / topLabel) * month.revenue}px`,
-                }}
-              ></div>
-              <p className="-rotate-90 text-sm text-gray-400 sm:rotate-0">
-                {month.month}
-              </p>
-            </div>
-          ))}
+          <div
+            className={clsx(
+              'flex grow items-end',
+              revenue.length <= MAX_LABELS
+                ? 'gap-2 md:gap-4'
+                : revenue.length <= 31
+                  ? 'gap-1'
+                  : 'gap-px',
+            )}
+          >
+            {revenue.map((period, i) => {
+              // Month labels show the year on the first one, and where a new
+              // one starts. Days and weeks leave the year to the tooltip.
+              const label = i % labelEvery === 0;
+              const newYear =
+                options.granularity === 'month' &&
+                (i === 0 ||
+                  period.period.slice(0, 4) !==
+                    revenue[i - labelEvery]?.period.slice(0, 4));
+              return (
+                <div
+                  key={period.period}
+                  className="flex min-w-0 flex-1 flex-col items-center gap-2"
+                >
+                  <div
+                    className="group relative w-full outline-none"
+                    style={{ height: `${chartHeight}px` }}
+                    tabIndex={0}
+                    aria-label={`${formatPeriod(period.period, options.granularity, { month: 'long', year: 'numeric' })}: ${formatCurrency(period.revenue)}`}
+                  >
+                    <div
+                      className={clsx(
+                        'absolute w-full rounded-md group-hover:opacity-80 group-focus:opacity-80',
+                        period.revenue < 0 ? 'bg-red-300' : 'bg-blue-300',
+                      )}
+                      style={barStyle(period.revenue)}
+                    ></div>
+                    {options.compare && (
+                      <div
+                        className="absolute w-full rounded-md border-2 border-dashed border-gray-400"
+                        style={barStyle(period.previous)}
+                      ></div>
+                    )}
+                    <div
+                      className="pointer-events-none absolute left-1/2 z-10 hidden -translate-x-1/2 whitespace-nowrap rounded-md bg-gray-900 px-2 py-1 text-xs text-white group-hover:block group-focus:block"
+                      style={{
+                        bottom: `${zeroLine + Math.max(period.revenue, options.compare ? period.previous : 0, 0) * scale + 8}px`,
+                      }}
+                    >
+                      <p className="text-gray-300">
+                        {options.granularity === 'week' && 'Week of '}
+                        {formatPeriod(period.period, options.granularity, {
+                          month: options.granularity === 'month' ? 'long' : 'short',
+                          year: 'numeric',
+                        })}
+                      </p>
+                      <p className="font-medium">{formatCurrency(period.revenue)}</p>
+                      {options.compare && (
+                        <p className="text-gray-300">
+                          Previous {formatCurrency(period.previous)}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  <p
+                    className={clsx(
+                      '-rotate-90 whitespace-nowrap text-sm text-gray-400 sm:rotate-0',
+                      !label && 'invisible',
+                    )}
+                  >
+                    {formatPeriod(
+                      period.period,
+                      options.granularity,
+                      newYear
+                        ? { month: 'short', year: '2-digit' }
+                        : { month: 'short' },
+                    )}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
         </div>
-        <div className="flex items-center pb-2 pt-6">
-          <CalendarIcon className="h-5 w-5 text-gray-500" />
-          <h3 className="ml-2 text-sm text-gray-500 ">Last 12 months</h3>
+        <div className="flex flex-wrap items-center justify-between gap-2 pb-2 pt-6 text-sm text-gray-500">
+          <div className="flex items-center">
+            <CalendarIcon className="h-5 w-5" />
+            <h3 className="ml-2">
+              {options.range === 'custom'
+                ? `${formatDateToLocal(options.from)} – ${formatDateToLocal(options.to)}`
+                : revenueRangeLabels[options.range]}
+            </h3>
+          </div>
+          <p>
+            Total <span className="font-medium text-gray-900">{formatCurrency(total)}</span>
+            {options.compare && (
+              <>
+                {' '}vs {formatCurrency(previousTotal)}{' '}
+                <span className="inline-block h-3 w-4 rounded-sm border-2 border-dashed border-gray-400 align-middle" />{' '}
+                previous period
+              </>
+            )}
+          </p>
         </div>
       </div>
     </div>
@@ -1,10 +1,18 @@
 import Link from 'next/link';
 import NavLinks from '@/app/ui/dashboard/nav-links';
+import OrganizationSwitcher from '@/app/ui/dashboard/organization-switcher';
 import AcmeLogo from '@/app/ui/acme-logo';
 import { PowerIcon } from '@heroicons/react/24/outline';
 import { signOut } from '@/auth';
+import { getActor } from '@/app/lib/session';
+import { fetchOrganizations } from '@/app/lib/data';
+
+export default async function SideNav() {
+  const [{ role, organizationId }, organizations] = await Promise.all([
+    getActor(),
+    fetchOrganizations(),
+  ]);
 
-export default function SideNav() {
   return (
     <div className="flex h-full flex-col px-3 py-4 md:px-2">
       <Link
@@ -15,8 +23,17 @@ export default function SideNav() {
           
         </div>
       </Link>
+      {/* Only users in more than one organization have anything to switch */}
+      {organizations.length > 1 && (
+        <div className="mb-2">
+          <OrganizationSwitcher
+            organizations={organizations}
+            activeId={organizationId}
+          />
+        </div>
+      )}
       <div className="flex grow flex-row justify-between space-x-2 md:flex-col md:space-x-0 md:space-y-2">
-        <NavLinks />
+        <NavLinks role={role} />
         <div className="hidden h-auto w-full grow rounded-md bg-gray-50 md:block"></div>
         <form
           action={async () => {
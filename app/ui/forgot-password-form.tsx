@@ -0,0 +1,91 @@
+'use client';
+
+import Link from 'next/link';
+import { lusitana } from '@/app/ui/fonts';
+import {
+  AtSymbolIcon,
+  CheckCircleIcon,
+  ExclamationCircleIcon,
+} from '@heroicons/react/24/outline';
+import { ArrowRightIcon } from '@heroicons/react/20/solid';
+import { Button } from './button';
+import { useActionState } from 'react';
+import { PasswordState, requestPasswordReset } from '@/app/lib/actions';
+
+export default function ForgotPasswordForm() {
+  const initialState: PasswordState = { message: null, errors: {} };
+  const [state, formAction, isPending] = useActionState(
+    requestPasswordReset,
+    initialState,
+  );
+
+  return (
+    <form action={formAction} className="space-y-3">
+      <div className="flex-1 rounded-lg bg-gray-50 px-6 pb-4 pt-8">
+        <h1 className={`${lusitana.className} mb-3 text-2xl`}>
+          Forgot your password?
+        </h1>
+        <p className="text-sm text-gray-500">
+          Enter the email you log in with and we will send you a link to choose
+          a new one.
+        </p>
+        <div className="w-full">
+          <label
+            className="mb-3 mt-5 block text-xs font-medium text-gray-900"
+            htmlFor="email"
+          >
+            Email
+          </label>
+          <div className="relative">
+            <input
+              className="peer block w-full rounded-md border border-gray-200 py-[9px] pl-10 text-sm outline-2 placeholder:text-gray-500"
+              id="email"
+              type="email"
+              name="email"
+              placeholder="Enter your email address"
+              required
+              aria-describedby="email-error"
+            />
+            <AtSymbolIcon className="pointer-events-none absolute left-3 top-1/2 h-[18px] w-[18px] -translate-y-1/2 text-gray-500 peer-focus:text-gray-900" />
+          </div>
+          <div id="email-error" aria-live="polite" aria-atomic="true">
+            {state.errors?.email &&
+              state.errors.email.map((error: string) => (
+                <p className="mt-2 text-sm text-red-500" key={error}>
+                  {error}
+                </p>
+              ))}
+          </div>
+        </div>
+        <Button className="mt-4 w-full" aria-disabled={isPending}>
+          Send reset link{' '}
+          <ArrowRightIcon className="ml-auto h-5 w-5 text-gray-50" />
+        </Button>
+        <div
+          className="flex min-h-8 items-end space-x-1 pt-2"
+          aria-live="polite"
+          aria-atomic="true"
+        >
+          {state.message &&
+            (state.success ? (
+              <>
+                <CheckCircleIcon className="h-5 w-5 shrink-0 text-green-600" />
+                <p className="text-sm text-green-600">{state.message}</p>
+              </>
+            ) : (
+              <>
+                <ExclamationCircleIcon className="h-5 w-5 shrink-0 text-red-500" />
+                <p className="text-sm text-red-500">{state.message}</p>
+              </>
+            ))}
+        </div>
+        <Link
+          href="/login"
+          className="mt-2 block text-sm text-blue-600 hover:underline"
+        >
+          Back to log in
+        </Link>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,27 @@
+// Wraps the words of a search query that appear in the text in <mark>.
+// Fuzzy matches that differ from the query are shown without a highlight.
+export default function Highlight({
+  text,
+  query,
+}: {
+  text: string;
+  query: string;
+}) {
+  const terms = query
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  if (terms.length === 0) return text;
+
+  // Splitting on a capturing group keeps the matches at the odd indexes
+  const parts = text.split(new RegExp(`(${terms.join('|')})`, 'gi'));
+  return parts.map((part, i) =>
+    i % 2 === 1 ? (
+      <mark key={i} className="rounded-sm bg-yellow-100 text-inherit">
+        {part}
+      </mark>
+    ) : (
+      part
+    ),
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import Link from 'next/link';
+import {
+  CheckCircleIcon,
+  DocumentArrowUpIcon,
+  ExclamationCircleIcon,
+} from '@heroicons/react/24/outline';
+import { Button } from '@/app/ui/button';
+import { importCsv, ImportState } from '@/app/lib/actions';
+import { ImportRow, ImportType } from '@/app/lib/definitions';
+import { useActionState } from 'react';
+
+// Uploads a CSV for a dry run first. The report lists every row, and the
+// valid ones can then be imported from the echoed file in a second step.
+export default function ImportForm({
+  type,
+  columns,
+}: {
+  type: ImportType;
+  columns: string[];
+}) {
+  const initialState: ImportState = { message: null };
+  const importCsvOfType = importCsv.bind(null, type);
+  const [state, formAction, isPending] = useActionState(
+    importCsvOfType,
+    initialState,
+  );
+
+  return (
+    <>
+      <form action={formAction}>
+        <input type="hidden" name="intent" value="preview" />
+        <div className="rounded-md bg-gray-50 p-4 md:p-6">
+          <label htmlFor="file" className="mb-2 block text-sm font-medium">
+            CSV file
+          </label>
+          <div className="relative">
+            <input
+              id="file"
+              name="file"
+              type="file"
+              accept=".csv,text/csv"
+              required
+              className="peer block w-full cursor-pointer rounded-md border border-gray-200 bg-white py-2 pl-10 text-sm outline-2"
+              aria-describedby="file-error"
+            />
+            <DocumentArrowUpIcon className="pointer-events-none absolute left-3 top-1/2 h-[18px] w-[18px] -translate-y-1/2 text-gray-500 peer-focus:text-gray-900" />
+          </div>
+          <p className="mt-2 text-sm text-gray-500">
+            The first row must name the columns: {columns.join(', ')}.
+          </p>
+          <div id="file-error" aria-live="polite" aria-atomic="true">
+            {state.message && (
+              <p className="mt-2 text-sm text-gray-700">{state.message}</p>
+            )}
+          </div>
+        </div>
+        <div className="mt-6 flex justify-end gap-4">
+          <Link
+            href={`/dashboard/${type}`}
+            className="flex h-10 items-center rounded-lg bg-gray-100 px-4 text-sm font-medium text-gray-600 transition-colors hover:bg-gray-200"
+          >
+            Cancel
+          </Link>
+          <Button type="submit" aria-disabled={isPending}>
+            Preview
+          </Button>
+        </div>
+      </form>
+
+      {state.csv && (
+        <form action={formAction} className="mt-6">
+          <input type="hidden" name="intent" value="commit" />
+          <input type="hidden" name="csv" value={state.csv} />
+          <ImportReport
+            title="Ready to import"
+            rows={state.valid ?? []}
+            icon={<CheckCircleIcon className="w-5 text-green-600" />}
+          />
+          <ImportReport
+            title="Will be skipped"
+            rows={state.invalid ?? []}
+            icon={<ExclamationCircleIcon className="w-5 text-red-500" />}
+          />
+          <div className="mt-6 flex justify-end">
+            <Button
+              type="submit"
+              disabled={!state.valid?.length}
+              aria-disabled={isPending || !state.valid?.length}
+            >
+              Import {state.valid?.length ?? 0} {type}
+            </Button>
+          </div>
+        </form>
+      )}
+    </>
+  );
+}
+
+function ImportReport({
+  title,
+  rows,
+  icon,
+}: {
+  title: string;
+  rows: ImportRow[];
+  icon: React.ReactNode;
+}) {
+  if (rows.length === 0) return null;
+
+  return (
+    <div className="mt-4 rounded-md bg-gray-50 p-4">
+      <h2 className="mb-2 flex items-center gap-2 text-sm font-medium">
+        {icon} {title} ({rows.length})
+      </h2>
+      <ul className="divide-y rounded-md bg-white text-sm">
+        {rows.map((row) => (
+          <li key={row.rows.join()} className="px-4 py-3">
+            <p>
+              <span className="text-gray-500">
+                {row.rows.length > 1 ? 'Rows' : 'Row'} {row.rows.join(', ')}
+              </span>{' '}
+              {row.summary}
+            </p>
+            {row.errors.map((error) => (
+              <p key={error} className="mt-1 text-red-500">
+                {error}
+              </p>
+            ))}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -1,8 +1,26 @@
-import { PencilIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import {
+  ArrowDownTrayIcon,
+  ArrowUturnLeftIcon,
+  ArrowUpTrayIcon,
+  ArchiveBoxXMarkIcon,
+  BanknotesIcon,
+  DocumentTextIcon,
+  PencilIcon,
+  PlusIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
 import Link from 'next/link';
-import { deleteInvoice } from '@/app/lib/actions';
+import { deleteInvoice, purgeInvoice, restoreInvoice } from '@/app/lib/actions';
+import { InvoiceFilters } from '@/app/lib/definitions';
+import { TRASH_RETENTION_DAYS, invoiceFiltersToParams } from '@/app/lib/utils';
+import { isAllowed } from '@/app/lib/session';
+import ConfirmDialog from '@/app/ui/confirm-dialog';
+
+// Buttons that change data render nothing for roles that can't use them
+
+export async function CreateInvoice() {
+  if (!(await isAllowed('manage_invoices'))) return null;
 
-export function CreateInvoice() {
   return (
     <Link
       href="/dashboard/invoices/create"
@@ -14,7 +32,50 @@ export function CreateInvoice() {
   );
 }
 
-export function UpdateInvoice({ id }: { id: string }) {
+export async function ImportInvoices() {
+  if (!(await isAllowed('manage_invoices'))) return null;
+
+  return (
+    <Link
+      href="/dashboard/invoices/import"
+      className="flex h-10 items-center rounded-lg border border-gray-200 px-4 text-sm font-medium text-gray-600 transition-colors hover:bg-gray-100"
+    >
+      <span className="hidden md:block">Import</span>{' '}
+      <ArrowUpTrayIcon className="h-5 md:ml-4" />
+    </Link>
+  );
+}
+
+export function ExportInvoices({ filters }: { filters: InvoiceFilters }) {
+  const params = invoiceFiltersToParams(filters);
+  return (
+    <a
+      href={`/dashboard/invoices/export?${params.toString()}`}
+      className="flex h-10 items-center rounded-lg border border-gray-200 px-4 text-sm font-medium text-gray-600 transition-colors hover:bg-gray-100"
+    >
+      <span className="hidden md:block">Export</span>{' '}
+      <ArrowDownTrayIcon className="h-5 md:ml-4" />
+    </a>
+  );
+}
+
+export async function InvoicesTrash() {
+  if (!(await isAllowed('manage_invoices'))) return null;
+
+  return (
+    <Link
+      href="/dashboard/invoices/trash"
+      className="flex h-10 items-center rounded-lg border border-gray-200 px-4 text-sm font-medium text-gray-600 transition-colors hover:bg-gray-100"
+    >
+      <span className="hidden md:block">Trash</span>{' '}
+      <TrashIcon className="h-5 md:ml-4" />
+    </Link>
+  );
+}
+
+export async function UpdateInvoice({ id }: { id: string }) {
+  if (!(await isAllowed('manage_invoices'))) return null;
+
   return (
     <Link
       href={`/dashboard/invoices/${id}/edit`}
@@ -25,14 +86,108 @@ export function UpdateInvoice({ id }: { id: string }) {
   );
 }
 
-export function DeleteInvoice({ id }: { id: string }) {
+export function ViewInvoice({ id }: { id: string }) {
+  return (
+    <Link
+      href={`/dashboard/invoices/${id}`}
+      className="rounded-md border p-2 hover:bg-gray-100"
+    >
+      <span className="sr-only">View</span>
+      <DocumentTextIcon className="w-5" />
+    </Link>
+  );
+}
+
+export function DownloadInvoice({ id }: { id: string }) {
+  // A plain anchor, since the route handler responds with a file download
+  return (
+    <a
+      href={`/dashboard/invoices/${id}/pdf`}
+      className="rounded-md border p-2 hover:bg-gray-100"
+    >
+      <span className="sr-only">Download PDF</span>
+      <ArrowDownTrayIcon className="w-5" />
+    </a>
+  );
+}
+
+export async function RecordPayment({
+  id,
+  balance,
+}: {
+  id: string;
+  balance: number;
+}) {
+  if (!(await isAllowed('record_payments'))) return null;
+
+  // Nothing left to pay, so there is nothing to record
+  if (balance <= 0) {
+    return (
+      <span className="rounded-md border p-2 text-gray-300">
+        <span className="sr-only">Paid in full</span>
+        <BanknotesIcon className="w-5" />
+      </span>
+    );
+  }
+
+  return (
+    <Link
+      href={`/dashboard/invoices/${id}/payments`}
+      className="rounded-md border p-2 hover:bg-gray-100"
+    >
+      <span className="sr-only">Record payment</span>
+      <BanknotesIcon className="w-5" />
+    </Link>
+  );
+}
+
+export async function DeleteInvoice({ id }: { id: string }) {
+  if (!(await isAllowed('manage_invoices'))) return null;
+
   const deleteInvoiceWithId = deleteInvoice.bind(null, id);
   return (
-    <form action={deleteInvoiceWithId}>
-      <button type="submit" className="rounded-md border p-2 hover:bg-gray-100">
-        <span className="sr-only">Delete</span>
-        <TrashIcon className="w-5" />
-      </button>
-    </form>
+    <ConfirmDialog
+      action={deleteInvoiceWithId}
+      title="Delete this invoice?"
+      description={`It will be moved to the trash, where it can be restored. After ${TRASH_RETENTION_DAYS} days it can be deleted for good.`}
+      confirmLabel="Delete"
+    >
+      <span className="sr-only">Delete</span>
+      <TrashIcon className="w-5" />
+    </ConfirmDialog>
+  );
+}
+
+export async function RestoreInvoice({ id }: { id: string }) {
+  if (!(await isAllowed('manage_invoices'))) return null;
+
+  const restoreInvoiceWithId = restoreInvoice.bind(null, id);
+  return (
+    <ConfirmDialog
+      action={restoreInvoiceWithId}
+      title="Restore this invoice?"
+      description="It will be back in the invoices list and dashboard totals."
+      confirmLabel="Restore"
+    >
+      <span className="sr-only">Restore</span>
+      <ArrowUturnLeftIcon className="w-5" />
+    </ConfirmDialog>
+  );
+}
+
+export async function PurgeInvoice({ id }: { id: string }) {
+  if (!(await isAllowed('purge_invoices'))) return null;
+
+  const purgeInvoiceWithId = purgeInvoice.bind(null, id);
+  return (
+    <ConfirmDialog
+      action={purgeInvoiceWithId}
+      title="Delete this invoice for good?"
+      description="The invoice, its line items and its payments will be deleted permanently. This cannot be undone."
+      confirmLabel="Delete permanently"
+    >
+      <span className="sr-only">Delete permanently</span>
+      <ArchiveBoxXMarkIcon className="w-5" />
+    </ConfirmDialog>
   );
 }
@@ -2,12 +2,13 @@
 import { CustomerField } from '@/app/lib/definitions'; // Import type for customer dropdown
 import Link from 'next/link'; // Import Next.js Link component for navigation
 import {
+  CalendarDaysIcon,
   CheckIcon,
   ClockIcon,
-  CurrencyDollarIcon,
   UserCircleIcon,
 } from '@heroicons/react/24/outline'; // Import icons for UI
 import { Button } from '@/app/ui/button'; // Import custom Button component
+import LineItems from '@/app/ui/invoices/line-items'; // Import line items editor
 import { createInvoice, State } from '@/app/lib/actions'; // Import invoice creation action and state type
 import { useActionState } from 'react'; // Import React hook for form actions
 
@@ -53,32 +54,35 @@ export default function Form({ customers }: { customers: CustomerField[] }) { //
           </div>
         </div>
 
-        {/* Invoice Amount */}
+        {/* Line Items */}
+        <LineItems errors={state.errors} /> {/* Line items, currency, discount and tax */}
+
+        {/* Payment Terms */}
         <div className="mb-4"> {/* Margin bottom for spacing */}
-          <label htmlFor="amount" className="mb-2 block text-sm font-medium">
-            Choose an amount {/* Label for amount input */}
+          <label htmlFor="paymentTerms" className="mb-2 block text-sm font-medium">
+            Choose payment terms {/* Label for payment terms dropdown */}
           </label>
-          <div className="relative mt-2 rounded-md"> {/* Positioning for icon */}
-            <div className="relative">
-              <input
-                id="amount" // HTML id for input
-                name="amount" // Name for form data
-                type="number" // Input type is number
-                step="0.01" // Allow decimals
-                placeholder="Enter USD amount" // Placeholder text
-                className="peer block w-full rounded-md border border-gray-200 py-2 pl-10 text-sm outline-2 placeholder:text-gray-500" // Styling
-                aria-describedby="amount-error"
-              />
-              <CurrencyDollarIcon className="pointer-events-none absolute left-3 top-1/2 h-[18px] w-[18px] -translate-y-1/2 text-gray-500 peer-focus:text-gray-900" /> {/* Dollar icon */}
-            </div>
-            <div id="amount-error" aria-live="polite" aria-atomic="true">
-              {state.errors?.amount &&
-                state.errors.amount.map((error: string) => (
-                  <p className="mt-2 text-sm text-red-500" key={error}>
-                    {error}
-                  </p>
-                ))}
-            </div>
+          <div className="relative"> {/* Positioning for icon */}
+            <select
+              id="paymentTerms" // HTML id for select
+              name="paymentTerms" // Name for form data
+              className="peer block w-full cursor-pointer rounded-md border border-gray-200 py-2 pl-10 text-sm outline-2 placeholder:text-gray-500" // Styling
+              defaultValue="30" // Net 30 unless the customer agreed otherwise
+              aria-describedby="paymentTerms-error"
+            >
+              <option value="15">Net 15</option>
+              <option value="30">Net 30</option>
+              <option value="60">Net 60</option>
+            </select>
+            <CalendarDaysIcon className="pointer-events-none absolute left-3 top-1/2 h-[18px] w-[18px] -translate-y-1/2 text-gray-500" /> {/* Icon inside select */}
+          </div>
+          <div id="paymentTerms-error" aria-live="polite" aria-atomic="true">
+            {state.errors?.paymentTerms &&
+              state.errors.paymentTerms.map((error: string) => (
+                <p className="mt-2 text-sm text-red-500" key={error}>
+                  {error}
+                </p>
+              ))}
           </div>
         </div>
 
@@ -0,0 +1,120 @@
+'use client';
+
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { useDebouncedCallback } from 'use-debounce';
+import { invoiceStatuses } from '@/app/lib/utils';
+import { useState } from 'react';
+
+const filterNames = ['status', 'from', 'to', 'minAmount', 'maxAmount'];
+
+const inputClassName =
+  'mt-1 block rounded-md border border-gray-200 py-[7px] px-3 text-sm outline-2 placeholder:text-gray-500';
+
+// Filter bar for the invoices lists. Each filter lives in the URL alongside
+// ?query=, and changing one returns to the first page of results.
+export default function Filters() {
+  const searchParams = useSearchParams();
+  const pathname = usePathname();
+  const { replace } = useRouter();
+
+  const setFilter = (name: string, value: string) => {
+    const params = new URLSearchParams(searchParams);
+    if (value) {
+      params.set(name, value);
+    } else {
+      params.delete(name);
+    }
+    params.delete('page');
+    params.delete('after');
+    params.delete('before');
+    replace(`${pathname}?${params.toString()}`);
+  };
+  const setAmount = useDebouncedCallback(setFilter, 300);
+  // The amount inputs are uncontrolled while typing, so clearing remounts them
+  const [clearCount, setClearCount] = useState(0);
+
+  const clearFilters = () => {
+    const params = new URLSearchParams(searchParams);
+    filterNames.forEach((name) => params.delete(name));
+    params.delete('page');
+    params.delete('after');
+    params.delete('before');
+    replace(`${pathname}?${params.toString()}`);
+    setClearCount(clearCount + 1);
+  };
+  const hasFilters = filterNames.some((name) => searchParams.has(name));
+
+  return (
+    <div className="mt-4 flex flex-wrap items-end gap-4 text-xs font-medium text-gray-500">
+      <label>
+        Status
+        <select
+          value={searchParams.get('status') ?? ''}
+          onChange={(e) => setFilter('status', e.target.value)}
+          className={`${inputClassName} w-32 cursor-pointer capitalize`}
+        >
+          <option value="">All</option>
+          {invoiceStatuses.map((status) => (
+            <option key={status} value={status}>
+              {status}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label>
+        From
+        <input
+          type="date"
+          value={searchParams.get('from') ?? ''}
+          onChange={(e) => setFilter('from', e.target.value)}
+          className={inputClassName}
+        />
+      </label>
+      <label>
+        To
+        <input
+          type="date"
+          value={searchParams.get('to') ?? ''}
+          onChange={(e) => setFilter('to', e.target.value)}
+          className={inputClassName}
+        />
+      </label>
+      <label>
+        Min amount
+        <input
+          key={`minAmount-${clearCount}`}
+          type="number"
+          min="0"
+          step="0.01"
+          placeholder="0.00"
+          defaultValue={searchParams.get('minAmount') ?? ''}
+          onChange={(e) => setAmount('minAmount', e.target.value)}
+          className={`${inputClassName} w-28`}
+        />
+      </label>
+      <label>
+        Max amount
+        <input
+          key={`maxAmount-${clearCount}`}
+          type="number"
+          min="0"
+          step="0.01"
+          placeholder="Any"
+          defaultValue={searchParams.get('maxAmount') ?? ''}
+          onChange={(e) => setAmount('maxAmount', e.target.value)}
+          className={`${inputClassName} w-28`}
+        />
+      </label>
+      {hasFilters && (
+        <button
+          type="button"
+          onClick={clearFilters}
+          className="flex h-[38px] items-center gap-1 rounded-md px-2 text-sm text-blue-600 hover:bg-gray-100"
+        >
+          <XMarkIcon className="w-4" /> Clear filters
+        </button>
+      )}
+    </div>
+  );
+}
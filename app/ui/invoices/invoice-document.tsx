@@ -0,0 +1,116 @@
+import { InvoiceDocument as InvoiceDocumentType } from '@/app/lib/definitions';
+import { formatCurrency, formatDateToLocal } from '@/app/lib/utils';
+import { lusitana } from '@/app/ui/fonts';
+import InvoiceStatus from '@/app/ui/invoices/status';
+
+export default function InvoiceDocument({
+  invoice,
+}: {
+  invoice: InvoiceDocumentType;
+}) {
+  const format = (amount: number) => formatCurrency(amount, invoice.currency);
+
+  return (
+    <article className="rounded-lg bg-white p-6 shadow-sm md:p-10 print:p-0 print:shadow-none">
+      <div className="flex items-start justify-between border-b pb-6">
+        <h2 className={`${lusitana.className} text-3xl`}>Invoice</h2>
+        <div className="text-right text-sm text-gray-500">
+          <p className="font-medium text-gray-900">
+            #{invoice.id.slice(0, 8).toUpperCase()}
+          </p>
+          <div className="mt-2">
+            <InvoiceStatus status={invoice.status} />
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-col justify-between gap-6 py-6 text-sm md:flex-row">
+        <div>
+          <p className="mb-1 font-medium">Billed to</p>
+          <p>{invoice.customer_name}</p>
+          <p className="text-gray-500">{invoice.customer_email}</p>
+        </div>
+        <dl className="grid grid-cols-2 gap-x-6 gap-y-1 md:text-right">
+          <dt className="text-gray-500">Date</dt>
+          <dd>{formatDateToLocal(invoice.date)}</dd>
+          <dt className="text-gray-500">Due</dt>
+          <dd>
+            {formatDateToLocal(invoice.due_date)} (Net {invoice.payment_terms})
+          </dd>
+          {invoice.paid_at ? (
+            <>
+              <dt className="text-gray-500">Paid</dt>
+              <dd>{formatDateToLocal(invoice.paid_at)}</dd>
+            </>
+          ) : null}
+        </dl>
+      </div>
+
+      <table className="min-w-full text-sm">
+        <thead className="border-b text-left">
+          <tr>
+            <th scope="col" className="py-3 pr-3 font-medium">
+              Description
+            </th>
+            <th scope="col" className="px-3 py-3 text-right font-medium">
+              Qty
+            </th>
+            <th scope="col" className="px-3 py-3 text-right font-medium">
+              Unit price
+            </th>
+            <th scope="col" className="py-3 pl-3 text-right font-medium">
+              Total
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {invoice.items.map((item, i) => (
+            <tr key={i} className="border-b last-of-type:border-none">
+              <td className="py-3 pr-3">{item.description}</td>
+              <td className="px-3 py-3 text-right">{item.quantity}</td>
+              <td className="px-3 py-3 text-right">
+                {format(item.unit_price)}
+              </td>
+              <td className="py-3 pl-3 text-right">
+                {format(item.quantity * item.unit_price)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <dl className="ml-auto mt-6 grid w-64 grid-cols-2 gap-y-2 border-t pt-4 text-sm">
+        <dt className="text-gray-500">Subtotal</dt>
+        <dd className="text-right">{format(invoice.subtotal)}</dd>
+        {invoice.discount > 0 ? (
+          <>
+            <dt className="text-gray-500">Discount</dt>
+            <dd className="text-right">-{format(invoice.discount)}</dd>
+          </>
+        ) : null}
+        {invoice.tax_rate > 0 ? (
+          <>
+            <dt className="text-gray-500">Tax ({invoice.tax_rate}%)</dt>
+            <dd className="text-right">{format(invoice.tax)}</dd>
+          </>
+        ) : null}
+        <dt className="text-base font-semibold">Total</dt>
+        <dd className="text-right text-base font-semibold">
+          {format(invoice.amount)}
+        </dd>
+        {invoice.balance < invoice.amount ? (
+          <>
+            <dt className="text-gray-500">Paid</dt>
+            <dd className="text-right">
+              -{format(invoice.amount - invoice.balance)}
+            </dd>
+            <dt className="font-semibold">Balance due</dt>
+            <dd className="text-right font-semibold">
+              {format(invoice.balance)}
+            </dd>
+          </>
+        ) : null}
+      </dl>
+    </article>
+  );
+}
@@ -0,0 +1,231 @@
+'use client';
+
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { Currency, InvoiceItemForm } from '@/app/lib/definitions';
+import { BASE_CURRENCY, currencies, formatCurrency } from '@/app/lib/utils';
+import { useState } from 'react';
+
+type LineItemRow = {
+  key: number;
+  description: string;
+  quantity: string;
+  unitPrice: string;
+};
+
+const inputClassName =
+  'block w-full rounded-md border border-gray-200 py-2 text-sm outline-2 placeholder:text-gray-500';
+
+// Editable list of invoice line items, followed by the invoice's currency,
+// discount and tax. Each item column is submitted as a repeated form field
+// (itemDescription, itemQuantity, itemUnitPrice); the server action zips them
+// back into rows and recomputes the invoice total.
+export default function LineItems({
+  defaultItems = [],
+  defaultCurrency = BASE_CURRENCY,
+  defaultDiscount,
+  defaultTaxRate,
+  errors,
+}: {
+  defaultItems?: InvoiceItemForm[];
+  defaultCurrency?: Currency;
+  defaultDiscount?: number;
+  defaultTaxRate?: number;
+  errors?: {
+    items?: string[];
+    currency?: string[];
+    discount?: string[];
+    taxRate?: string[];
+  };
+}) {
+  const [rows, setRows] = useState<LineItemRow[]>(() =>
+    defaultItems.length > 0
+      ? defaultItems.map((item, i) => ({
+          key: i,
+          description: item.description,
+          quantity: item.quantity.toString(),
+          unitPrice: item.unit_price.toString(),
+        }))
+      : [{ key: 0, description: '', quantity: '1', unitPrice: '' }],
+  );
+  const [nextKey, setNextKey] = useState(rows.length);
+  const [currency, setCurrency] = useState<string>(defaultCurrency);
+  const [discount, setDiscount] = useState(defaultDiscount?.toString() ?? '');
+  const [taxRate, setTaxRate] = useState(defaultTaxRate?.toString() ?? '');
+
+  const addRow = () => {
+    setRows([
+      ...rows,
+      { key: nextKey, description: '', quantity: '1', unitPrice: '' },
+    ]);
+    setNextKey(nextKey + 1);
+  };
+
+  const removeRow = (key: number) => {
+    setRows(rows.filter((row) => row.key !== key));
+  };
+
+  const updateRow = (key: number, changes: Partial<LineItemRow>) => {
+    setRows(rows.map((row) => (row.key === key ? { ...row, ...changes } : row)));
+  };
+
+  // Preview only; the server recomputes the total from the submitted rows
+  const lineTotalInCents = (row: LineItemRow) =>
+    (Number(row.quantity) || 0) * Math.round((Number(row.unitPrice) || 0) * 100);
+  const subtotalInCents = rows.reduce(
+    (total, row) => total + lineTotalInCents(row),
+    0,
+  );
+  const taxableInCents =
+    subtotalInCents - Math.round((Number(discount) || 0) * 100);
+  const taxInCents = Math.round((taxableInCents * (Number(taxRate) || 0)) / 100);
+  const format = (amount: number) => formatCurrency(amount, currency);
+
+  return (
+    <fieldset className="mb-4">
+      <legend className="mb-2 block text-sm font-medium">Line items</legend>
+      <div className="rounded-md border border-gray-200 bg-white p-3">
+        <div className="hidden gap-2 px-1 pb-2 text-xs font-medium text-gray-500 md:flex">
+          <span className="grow">Description</span>
+          <span className="w-20">Qty</span>
+          <span className="w-28">Unit price</span>
+          <span className="w-24 text-right">Total</span>
+          <span className="w-10" />
+        </div>
+        {rows.map((row) => (
+          <div
+            key={row.key}
+            className="mb-2 flex flex-wrap items-center gap-2 md:flex-nowrap"
+          >
+            <input
+              name="itemDescription"
+              type="text"
+              placeholder="Description"
+              aria-label="Description"
+              value={row.description}
+              onChange={(e) => updateRow(row.key, { description: e.target.value })}
+              className={`${inputClassName} grow px-3 md:w-auto`}
+              aria-describedby="items-error"
+            />
+            <input
+              name="itemQuantity"
+              type="number"
+              min="1"
+              step="1"
+              aria-label="Quantity"
+              value={row.quantity}
+              onChange={(e) => updateRow(row.key, { quantity: e.target.value })}
+              className={`${inputClassName} w-20 px-3`}
+              aria-describedby="items-error"
+            />
+            <input
+              name="itemUnitPrice"
+              type="number"
+              step="0.01"
+              placeholder={currency}
+              aria-label="Unit price"
+              value={row.unitPrice}
+              onChange={(e) => updateRow(row.key, { unitPrice: e.target.value })}
+              className={`${inputClassName} w-28 px-3`}
+              aria-describedby="items-error"
+            />
+            <p className="w-24 text-right text-sm">
+              {format(lineTotalInCents(row))}
+            </p>
+            <button
+              type="button"
+              onClick={() => removeRow(row.key)}
+              disabled={rows.length === 1}
+              className="rounded-md border p-2 hover:bg-gray-100 disabled:cursor-not-allowed disabled:text-gray-300 disabled:hover:bg-transparent"
+            >
+              <span className="sr-only">Remove line item</span>
+              <TrashIcon className="w-5" />
+            </button>
+          </div>
+        ))}
+        <div className="flex items-center justify-between border-t pt-3">
+          <button
+            type="button"
+            onClick={addRow}
+            className="flex items-center gap-1.5 rounded-md px-2 py-1 text-sm font-medium text-blue-600 hover:bg-gray-100"
+          >
+            <PlusIcon className="h-4 w-4" /> Add line item
+          </button>
+          <p className="text-sm">Subtotal {format(subtotalInCents)}</p>
+        </div>
+        <div className="mt-3 flex flex-wrap items-end justify-end gap-4 border-t pt-3">
+          <label className="text-xs font-medium text-gray-500">
+            Currency
+            <select
+              name="currency"
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value)}
+              className={`${inputClassName} mt-1 w-28 cursor-pointer px-3`}
+              aria-describedby="totals-error"
+            >
+              {currencies.map((code) => (
+                <option key={code} value={code}>
+                  {code}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-xs font-medium text-gray-500">
+            Discount
+            <input
+              name="discount"
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="0.00"
+              value={discount}
+              onChange={(e) => setDiscount(e.target.value)}
+              className={`${inputClassName} mt-1 w-28 px-3`}
+              aria-describedby="totals-error"
+            />
+          </label>
+          <label className="text-xs font-medium text-gray-500">
+            Tax rate (%)
+            <input
+              name="taxRate"
+              type="number"
+              min="0"
+              max="100"
+              step="0.01"
+              placeholder="0"
+              value={taxRate}
+              onChange={(e) => setTaxRate(e.target.value)}
+              className={`${inputClassName} mt-1 w-28 px-3`}
+              aria-describedby="totals-error"
+            />
+          </label>
+          <div className="w-40 text-right text-sm">
+            <p className="text-gray-500">Tax {format(taxInCents)}</p>
+            <p className="font-medium">
+              Total {format(taxableInCents + taxInCents)}
+            </p>
+          </div>
+        </div>
+      </div>
+      <div id="items-error" aria-live="polite" aria-atomic="true">
+        {errors?.items &&
+          // Several rows can fail the same check, so show each message once
+          Array.from(new Set(errors.items)).map((error: string) => (
+            <p className="mt-2 text-sm text-red-500" key={error}>
+              {error}
+            </p>
+          ))}
+      </div>
+      <div id="totals-error" aria-live="polite" aria-atomic="true">
+        {[
+          ...(errors?.currency ?? []),
+          ...(errors?.discount ?? []),
+          ...(errors?.taxRate ?? []),
+        ].map((error: string) => (
+          <p className="mt-2 text-sm text-red-500" key={error}>
+            {error}
+          </p>
+        ))}
+      </div>
+    </fieldset>
+  );
+}
@@ -6,12 +6,24 @@ import Link from 'next/link';
 import { generatePagination } from '@/app/lib/utils';
 import { usePathname, useSearchParams } from 'next/navigation';
  
-export default function Pagination({ totalPages }: { totalPages: number }) {
+type Cursors = { previous?: string; next?: string };
+
+// Numbered pages when the total is known, or previous/next links between
+// keyset cursors (?after= / ?before=) when it isn't
+export default function Pagination(
+  props: { totalPages: number } | { cursors: Cursors },
+) {
+  if ('cursors' in props) return <CursorPagination cursors={props.cursors} />;
+  return <NumberedPagination totalPages={props.totalPages} />;
+}
+
+function NumberedPagination({ totalPages }: { totalPages: number }) {
   const pathname = usePathname();
   const searchParams = useSearchParams();
   const currentPage = Number(searchParams.get('page')) || 1;
   // NOTE: Uncomment this code in Chapter 11
   const allPages = generatePagination(currentPage, totalPages);
+  // Copies every current param, so the search, filters and sort carry over
   const createPageURL = (pageNumber: number | string) => {
     const params = new URLSearchParams(searchParams);
     params.set('page', pageNumber.toString());
@@ -60,6 +72,34 @@ export default function Pagination({ totalPages }: { totalPages: number }) {
   );
 }
 
+function CursorPagination({ cursors }: { cursors: Cursors }) {
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const createCursorURL = (name: 'after' | 'before', cursor = '') => {
+    const params = new URLSearchParams(searchParams);
+    params.delete('after');
+    params.delete('before');
+    params.delete('page');
+    params.set(name, cursor);
+    return `${pathname}?${params.toString()}`;
+  };
+
+  return (
+    <div className="inline-flex">
+      <PaginationArrow
+        direction="left"
+        href={createCursorURL('before', cursors.previous)}
+        isDisabled={!cursors.previous}
+      />
+      <PaginationArrow
+        direction="right"
+        href={createCursorURL('after', cursors.next)}
+        isDisabled={!cursors.next}
+      />
+    </div>
+  );
+}
+
 function PaginationNumber({
   page,
   href,
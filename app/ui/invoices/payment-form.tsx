@@ -0,0 +1,145 @@
+'use client';
+
+import {
+  BanknotesIcon,
+  CalendarDaysIcon,
+  CreditCardIcon,
+  HashtagIcon,
+} from '@heroicons/react/24/outline';
+import Link from 'next/link';
+import { Button } from '@/app/ui/button';
+import { recordPayment, PaymentState } from '@/app/lib/actions';
+import { InvoiceDocument } from '@/app/lib/definitions';
+import { paymentMethodLabels, paymentMethods } from '@/app/lib/utils';
+import { useActionState } from 'react';
+
+const inputClassName =
+  'peer block w-full rounded-md border border-gray-200 py-2 pl-10 text-sm outline-2 placeholder:text-gray-500';
+const iconClassName =
+  'pointer-events-none absolute left-3 top-1/2 h-[18px] w-[18px] -translate-y-1/2 text-gray-500 peer-focus:text-gray-900';
+
+function FieldErrors({ id, errors }: { id: string; errors?: string[] }) {
+  return (
+    <div id={id} aria-live="polite" aria-atomic="true">
+      {errors?.map((error: string) => (
+        <p className="mt-2 text-sm text-red-500" key={error}>
+          {error}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+export default function PaymentForm({ invoice }: { invoice: InvoiceDocument }) {
+  const initialState: PaymentState = { message: null, errors: {} };
+  const recordPaymentForInvoice = recordPayment.bind(null, invoice.id);
+  const [state, formAction] = useActionState(
+    recordPaymentForInvoice,
+    initialState,
+  );
+
+  return (
+    <form action={formAction}>
+      <div className="grid gap-4 rounded-md bg-gray-50 p-4 md:grid-cols-2 md:p-6">
+        {/* Amount, defaulting to the outstanding balance */}
+        <div>
+          <label htmlFor="amount" className="mb-2 block text-sm font-medium">
+            Amount ({invoice.currency})
+          </label>
+          <div className="relative">
+            <input
+              id="amount"
+              name="amount"
+              type="number"
+              step="0.01"
+              min="0.01"
+              max={invoice.balance / 100}
+              defaultValue={(invoice.balance / 100).toFixed(2)}
+              className={inputClassName}
+              aria-describedby="amount-error"
+            />
+            <BanknotesIcon className={iconClassName} />
+          </div>
+          <FieldErrors id="amount-error" errors={state.errors?.amount} />
+        </div>
+
+        {/* Payment Date */}
+        <div>
+          <label htmlFor="date" className="mb-2 block text-sm font-medium">
+            Date received
+          </label>
+          <div className="relative">
+            <input
+              id="date"
+              name="date"
+              type="date"
+              defaultValue={new Date().toISOString().split('T')[0]}
+              className={inputClassName}
+              aria-describedby="date-error"
+            />
+            <CalendarDaysIcon className={iconClassName} />
+          </div>
+          <FieldErrors id="date-error" errors={state.errors?.date} />
+        </div>
+
+        {/* Payment Method */}
+        <div>
+          <label htmlFor="method" className="mb-2 block text-sm font-medium">
+            Method
+          </label>
+          <div className="relative">
+            <select
+              id="method"
+              name="method"
+              defaultValue="bank_transfer"
+              className={`${inputClassName} cursor-pointer`}
+              aria-describedby="method-error"
+            >
+              {paymentMethods.map((method) => (
+                <option key={method} value={method}>
+                  {paymentMethodLabels[method]}
+                </option>
+              ))}
+            </select>
+            <CreditCardIcon className={iconClassName} />
+          </div>
+          <FieldErrors id="method-error" errors={state.errors?.method} />
+        </div>
+
+        {/* Reference, e.g. a bank transaction or cheque number */}
+        <div>
+          <label htmlFor="reference" className="mb-2 block text-sm font-medium">
+            Reference (optional)
+          </label>
+          <div className="relative">
+            <input
+              id="reference"
+              name="reference"
+              type="text"
+              placeholder="Transaction or cheque number"
+              className={inputClassName}
+              aria-describedby="reference-error"
+            />
+            <HashtagIcon className={iconClassName} />
+          </div>
+          <FieldErrors id="reference-error" errors={state.errors?.reference} />
+        </div>
+
+        <div aria-live="polite" aria-atomic="true" className="md:col-span-2">
+          {state.message && (
+            <p className="text-sm text-red-500">{state.message}</p>
+          )}
+        </div>
+      </div>
+      <div className="mt-6 flex justify-end gap-4">
+        <Link
+          href="/dashboard/invoices"
+          className="flex h-10 items-center rounded-lg bg-gray-100 px-4 text-sm font-medium text-gray-600 transition-colors hover:bg-gray-200"
+        >
+          Cancel
+        </Link>
+        <Button type="submit">Record Payment</Button>
+      </div>
+    </form>
+  );
+}
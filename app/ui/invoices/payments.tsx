@@ -0,0 +1,73 @@
+import { InvoiceDocument, Payment } from '@/app/lib/definitions';
+import {
+  formatCurrency,
+  formatDateToLocal,
+  paymentMethodLabels,
+} from '@/app/lib/utils';
+
+// The invoice's payment history, with what has been paid and what is left
+export default function Payments({
+  invoice,
+  payments,
+}: {
+  invoice: InvoiceDocument;
+  payments: Payment[];
+}) {
+  const format = (amount: number) => formatCurrency(amount, invoice.currency);
+
+  return (
+    <div className="mb-6 rounded-md bg-gray-50 p-4 md:p-6">
+      <div className="mb-4 flex flex-wrap justify-between gap-4 text-sm">
+        <p>
+          <span className="text-gray-500">Billed to</span>{' '}
+          {invoice.customer_name}
+        </p>
+        <p>
+          <span className="text-gray-500">Total</span> {format(invoice.amount)}
+          <span className="ml-4 text-gray-500">Paid</span>{' '}
+          {format(invoice.amount - invoice.balance)}
+          <span className="ml-4 text-gray-500">Balance</span>{' '}
+          <span className="font-semibold">{format(invoice.balance)}</span>
+        </p>
+      </div>
+      {payments.length === 0 ? (
+        <p className="text-sm text-gray-500">No payments recorded yet.</p>
+      ) : (
+        <table className="min-w-full rounded-md bg-white text-left text-sm">
+          <thead>
+            <tr>
+              <th scope="col" className="px-4 py-3 font-medium">
+                Date
+              </th>
+              <th scope="col" className="px-3 py-3 font-medium">
+                Method
+              </th>
+              <th scope="col" className="px-3 py-3 font-medium">
+                Reference
+              </th>
+              <th scope="col" className="px-4 py-3 text-right font-medium">
+                Amount
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {payments.map((payment) => (
+              <tr key={payment.id} className="border-t">
+                <td className="whitespace-nowrap px-4 py-3">
+                  {formatDateToLocal(payment.date)}
+                </td>
+                <td className="whitespace-nowrap px-3 py-3">
+                  {paymentMethodLabels[payment.method]}
+                </td>
+                <td className="px-3 py-3">{payment.reference ?? '-'}</td>
+                <td className="whitespace-nowrap px-4 py-3 text-right">
+                  {format(payment.amount)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
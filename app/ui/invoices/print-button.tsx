@@ -0,0 +1,16 @@
+'use client';
+
+import { PrinterIcon } from '@heroicons/react/24/outline';
+
+export default function PrintButton() {
+  return (
+    <button
+      type="button"
+      onClick={() => window.print()}
+      className="flex h-10 items-center rounded-lg bg-gray-100 px-4 text-sm font-medium text-gray-600 transition-colors hover:bg-gray-200"
+    >
+      <span className="hidden md:block">Print</span>
+      <PrinterIcon className="h-5 md:ml-4" />
+    </button>
+  );
+}
@@ -1,4 +1,8 @@
-import { CheckIcon, ClockIcon } from '@heroicons/react/24/outline';
+import {
+  CheckIcon,
+  ClockIcon,
+  ExclamationCircleIcon,
+} from '@heroicons/react/24/outline';
 import clsx from 'clsx';
 
 export default function InvoiceStatus({ status }: { status: string }) {
@@ -9,6 +13,7 @@ export default function InvoiceStatus({ status }: { status: string }) {
         {
           'bg-gray-100 text-gray-500': status === 'pending',
           'bg-green-500 text-white': status === 'paid',
+          'bg-red-500 text-white': status === 'overdue',
         },
       )}
     >
@@ -24,6 +29,12 @@ export default function InvoiceStatus({ status }: { status: string }) {
           <CheckIcon className="ml-1 w-4 text-white" />
         </>
       ) : null}
+      {status === 'overdue' ? (
+        <>
+          Overdue
+          <ExclamationCircleIcon className="ml-1 w-4 text-white" />
+        </>
+      ) : null}
     </span>
   );
 }
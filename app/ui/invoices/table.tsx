@@ -1,17 +1,42 @@
 import Image from 'next/image';
-import { UpdateInvoice, DeleteInvoice } from '@/app/ui/invoices/buttons';
+import Link from 'next/link';
+import {
+  ViewInvoice,
+  DownloadInvoice,
+  RecordPayment,
+  UpdateInvoice,
+  DeleteInvoice,
+} from '@/app/ui/invoices/buttons';
 import InvoiceStatus from '@/app/ui/invoices/status';
 import { formatDateToLocal, formatCurrency } from '@/app/lib/utils';
-import { fetchFilteredInvoices } from '@/app/lib/data';
+import { fetchFilteredInvoices, fetchInvoicesByCursor } from '@/app/lib/data';
+import {
+  InvoiceCursor,
+  InvoiceFilters,
+  InvoicesSortColumn,
+  Sort,
+} from '@/app/lib/definitions';
+import Pagination from '@/app/ui/invoices/pagination';
+import SortableHeader from '@/app/ui/sortable-header';
+import Highlight from '@/app/ui/highlight';
 
+// Pages by number, or by keyset cursor when one is given. Cursor pages only
+// learn their neighbours from the same query, so they render their own
+// previous/next links.
 export default async function InvoicesTable({
-  query,
+  filters,
   currentPage,
+  sort,
+  cursor,
 }: {
-  query: string;
+  filters: InvoiceFilters;
   currentPage: number;
+  sort: Sort<InvoicesSortColumn>;
+  cursor?: { after?: InvoiceCursor; before?: InvoiceCursor };
 }) {
-  const invoices = await fetchFilteredInvoices(query, currentPage);
+  const { invoices, ...cursors } = cursor
+    ? await fetchInvoicesByCursor(filters, cursor, sort.dir)
+    : { invoices: await fetchFilteredInvoices(filters, currentPage, sort) };
 
   return (
     <div className="mt-6 flow-root">
@@ -33,20 +58,38 @@ export default async function InvoicesTable({
                         height={28}
                         alt={`${invoice.name}'s profile picture`}
                       />
-                      <p>{invoice.name}</p>
+                      <Link
+                        href={`/dashboard/customers/${invoice.customer_id}`}
+                        className="hover:text-blue-600 hover:underline"
+                      >
+                        <Highlight text={invoice.name} query={filters.query} />
+                      </Link>
                     </div>
-                    <p className="text-sm text-gray-500">{invoice.email}</p>
+                    <p className="text-sm text-gray-500">
+                      <Highlight text={invoice.email} query={filters.query} />
+                    </p>
                   </div>
                   <InvoiceStatus status={invoice.status} />
                 </div>
                 <div className="flex w-full items-center justify-between pt-4">
                   <div>
                     <p className="text-xl font-medium">
-                      {formatCurrency(invoice.amount)}
+                      {formatCurrency(invoice.amount, invoice.currency)}
                     </p>
+                    {invoice.balance > 0 && invoice.balance < invoice.amount && (
+                      <p className="text-sm text-gray-500">
+                        {formatCurrency(invoice.balance, invoice.currency)} due
+                      </p>
+                    )}
                     <p>{formatDateToLocal(invoice.date)}</p>
+                    <p className="text-sm text-gray-500">
+                      Due {formatDateToLocal(invoice.due_date)}
+                    </p>
                   </div>
                   <div className="flex justify-end gap-2">
+                    <ViewInvoice id={invoice.id} />
+                    <DownloadInvoice id={invoice.id} />
+                    <RecordPayment id={invoice.id} balance={invoice.balance} />
                     <UpdateInvoice id={invoice.id} />
                     <DeleteInvoice id={invoice.id} />
                   </div>
@@ -57,21 +100,42 @@ export default async function InvoicesTable({
           <table className="hidden min-w-full text-gray-900 md:table">
             <thead className="rounded-lg text-left text-sm font-normal">
               <tr>
-                <th scope="col" className="px-4 py-5 font-medium sm:pl-6">
-                  Customer
-                </th>
-                <th scope="col" className="px-3 py-5 font-medium">
-                  Email
-                </th>
-                <th scope="col" className="px-3 py-5 font-medium">
-                  Amount
-                </th>
-                <th scope="col" className="px-3 py-5 font-medium">
-                  Date
-                </th>
-                <th scope="col" className="px-3 py-5 font-medium">
-                  Status
-                </th>
+                <SortableHeader
+                  column="name"
+                  label="Customer"
+                  sort={sort}
+                  className="px-4 py-5 font-medium sm:pl-6"
+                />
+                <SortableHeader
+                  column="email"
+                  label="Email"
+                  sort={sort}
+                  className="px-3 py-5 font-medium"
+                />
+                <SortableHeader
+                  column="amount"
+                  label="Amount"
+                  sort={sort}
+                  className="px-3 py-5 font-medium"
+                />
+                <SortableHeader
+                  column="date"
+                  label="Date"
+                  sort={sort}
+                  className="px-3 py-5 font-medium"
+                />
+                <SortableHeader
+                  column="due_date"
+                  label="Due"
+                  sort={sort}
+                  className="px-3 py-5 font-medium"
+                />
+                <SortableHeader
+                  column="status"
+                  label="Status"
+                  sort={sort}
+                  className="px-3 py-5 font-medium"
+                />
                 <th scope="col" className="relative py-3 pl-6 pr-3">
                   <span className="sr-only">Edit</span>
                 </th>
@@ -92,23 +156,43 @@ export default async function InvoicesTable({
                         height={28}
                         alt={`${invoice.name}'s profile picture`}
                       />
-                      <p>{invoice.name}</p>
+                      <Link
+                        href={`/dashboard/customers/${invoice.customer_id}`}
+                        className="hover:text-blue-600 hover:underline"
+                      >
+                        <Highlight text={invoice.name} query={filters.query} />
+                      </Link>
                     </div>
                   </td>
                   <td className="whitespace-nowrap px-3 py-3">
-                    {invoice.email}
+                    <Highlight text={invoice.email} query={filters.query} />
                   </td>
                   <td className="whitespace-nowrap px-3 py-3">
-                    {formatCurrency(invoice.amount)}
+                    {formatCurrency(invoice.amount, invoice.currency)}
+                    {/* Partly paid invoices show what is left to pay */}
+                    {invoice.balance > 0 && invoice.balance < invoice.amount && (
+                      <p className="text-xs text-gray-500">
+                        {formatCurrency(invoice.balance, invoice.currency)} due
+                      </p>
+                    )}
                   </td>
                   <td className="whitespace-nowrap px-3 py-3">
                     {formatDateToLocal(invoice.date)}
                   </td>
+                  <td className="whitespace-nowrap px-3 py-3">
+                    {formatDateToLocal(invoice.due_date)}
+                  </td>
                   <td className="whitespace-nowrap px-3 py-3">
                     <InvoiceStatus status={invoice.status} />
                   </td>
                   <td className="whitespace-nowrap py-3 pl-6 pr-3">
                     <div className="flex justify-end gap-3">
+                      <ViewInvoice id={invoice.id} />
+                      <DownloadInvoice id={invoice.id} />
+                      <RecordPayment
+                        id={invoice.id}
+                        balance={invoice.balance}
+                      />
                       <UpdateInvoice id={invoice.id} />
                       <DeleteInvoice id={invoice.id} />
                     </div>
@@ -119,6 +203,11 @@ export default async function InvoicesTable({
           </table>
         </div>
       </div>
+      {cursor && (
+        <div className="mt-5 flex w-full justify-center">
+          <Pagination cursors={cursors} />
+        </div>
+      )}
     </div>
   );
 }
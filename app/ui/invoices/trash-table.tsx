@@ -0,0 +1,140 @@
+import Image from 'next/image';
+import { PurgeInvoice, RestoreInvoice } from '@/app/ui/invoices/buttons';
+import { formatDateToLocal, formatCurrency } from '@/app/lib/utils';
+import { fetchDeletedInvoices } from '@/app/lib/data';
+import { DeletedInvoice } from '@/app/lib/definitions';
+
+// Invoices can be purged once their retention period is up; until then the
+// date they become purgeable is shown instead
+function TrashActions({ invoice }: { invoice: DeletedInvoice }) {
+  return (
+    <div className="flex items-center justify-end gap-3">
+      <RestoreInvoice id={invoice.id} />
+      {invoice.purgeable ? (
+        <PurgeInvoice id={invoice.id} />
+      ) : (
+        <span className="w-24 text-xs text-gray-500">
+          Purge from {formatDateToLocal(invoice.purgeable_at)}
+        </span>
+      )}
+    </div>
+  );
+}
+
+export default async function TrashTable({
+  currentPage,
+}: {
+  currentPage: number;
+}) {
+  const invoices = await fetchDeletedInvoices(currentPage);
+
+  return (
+    <div className="mt-6 flow-root">
+      <div className="inline-block min-w-full align-middle">
+        <div className="rounded-lg bg-gray-50 p-2 md:pt-0">
+          {invoices.length === 0 && (
+            <p className="p-4 text-sm text-gray-500">The trash is empty.</p>
+          )}
+          <div className="md:hidden">
+            {invoices.map((invoice) => (
+              <div
+                key={invoice.id}
+                className="mb-2 w-full rounded-md bg-white p-4"
+              >
+                <div className="flex items-center justify-between border-b pb-4">
+                  <div>
+                    <div className="mb-2 flex items-center">
+                      <Image
+                        src={invoice.image_url}
+                        className="mr-2 rounded-full"
+                        width={28}
+                        height={28}
+                        alt={`${invoice.name}'s profile picture`}
+                      />
+                      <p>{invoice.name}</p>
+                    </div>
+                    <p className="text-sm text-gray-500">{invoice.email}</p>
+                  </div>
+                </div>
+                <div className="flex w-full items-center justify-between pt-4">
+                  <div>
+                    <p className="text-xl font-medium">
+                      {formatCurrency(invoice.amount, invoice.currency)}
+                    </p>
+                    <p>{formatDateToLocal(invoice.date)}</p>
+                    <p className="text-sm text-gray-500">
+                      Deleted {formatDateToLocal(invoice.deleted_at)}
+                    </p>
+                  </div>
+                  <TrashActions invoice={invoice} />
+                </div>
+              </div>
+            ))}
+          </div>
+          {invoices.length > 0 && (
+            <table className="hidden min-w-full text-gray-900 md:table">
+              <thead className="rounded-lg text-left text-sm font-normal">
+                <tr>
+                  <th scope="col" className="px-4 py-5 font-medium sm:pl-6">
+                    Customer
+                  </th>
+                  <th scope="col" className="px-3 py-5 font-medium">
+                    Email
+                  </th>
+                  <th scope="col" className="px-3 py-5 font-medium">
+                    Amount
+                  </th>
+                  <th scope="col" className="px-3 py-5 font-medium">
+                    Date
+                  </th>
+                  <th scope="col" className="px-3 py-5 font-medium">
+                    Deleted
+                  </th>
+                  <th scope="col" className="relative py-3 pl-6 pr-3">
+                    <span className="sr-only">Restore or purge</span>
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white">
+                {invoices.map((invoice) => (
+                  <tr
+                    key={invoice.id}
+                    className="w-full border-b py-3 text-sm last-of-type:border-none [&:first-child>td:first-child]:rounded-tl-lg [&:first-child>td:last-child]:rounded-tr-lg [&:last-child>td:first-child]:rounded-bl-lg [&:last-child>td:last-child]:rounded-br-lg"
+                  >
+                    <td className="whitespace-nowrap py-3 pl-6 pr-3">
+                      <div className="flex items-center gap-3">
+                        <Image
+                          src={invoice.image_url}
+                          className="rounded-full"
+                          width={28}
+                          height={28}
+                          alt={`${invoice.name}'s profile picture`}
+                        />
+                        <p>{invoice.name}</p>
+                      </div>
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-3">
+                      {invoice.email}
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-3">
+                      {formatCurrency(invoice.amount, invoice.currency)}
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-3">
+                      {formatDateToLocal(invoice.date)}
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-3">
+                      {formatDateToLocal(invoice.deleted_at)}
+                    </td>
+                    <td className="whitespace-nowrap py-3 pl-6 pr-3">
+                      <TrashActions invoice={invoice} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,12 @@
 "use client"; 
 import { lusitana } from '@/app/ui/fonts';
+import Link from 'next/link';
 import {
   AtSymbolIcon,
+  CheckCircleIcon,
   KeyIcon,
   ExclamationCircleIcon,
+  LockClosedIcon,
 } from '@heroicons/react/24/outline';
 import { ArrowRightIcon } from '@heroicons/react/20/solid';
 import { Button } from './button';
@@ -14,7 +17,8 @@ import { useSearchParams } from 'next/navigation';
 export default function LoginForm() {
   const searchParams = useSearchParams();
   const callbackUrl = searchParams.get('callbackUrl') || '/dashboard';
-  const [errorMessage, formAction, isPending] = useActionState(
+  const passwordReset = searchParams.get('passwordReset') === 'true'; // Back from a reset link
+  const [state, formAction, isPending] = useActionState(
     authenticate,
     undefined,
   );
@@ -46,12 +50,20 @@ export default function LoginForm() {
             </div>
           </div>
           <div className="mt-4">
-            <label
-              className="mb-3 mt-5 block text-xs font-medium text-gray-900"
-              htmlFor="password"
-            >
-              Password
-            </label>
+            <div className="mb-3 mt-5 flex items-center justify-between">
+              <label
+                className="block text-xs font-medium text-gray-900"
+                htmlFor="password"
+              >
+                Password
+              </label>
+              <Link
+                href="/forgot-password"
+                className="text-xs text-blue-600 hover:underline"
+              >
+                Forgot password?
+              </Link>
+            </div>
             <div className="relative">
               <input
                 className="peer block w-full rounded-md border border-gray-200 py-[9px] pl-10 text-sm outline-2 placeholder:text-gray-500"
@@ -75,10 +87,22 @@ export default function LoginForm() {
           aria-live="polite"
           aria-atomic="true"
         >
-          {errorMessage && (
+          {!state && passwordReset && (
+            <>
+              <CheckCircleIcon className="h-5 w-5 text-green-600" />
+              <p className="text-sm text-green-600">
+                Your password has been reset. Please log in.
+              </p>
+            </>
+          )}
+          {state && (
             <>
-              <ExclamationCircleIcon className="h-5 w-5 text-red-500" />
-              <p className="text-sm text-red-500">{errorMessage}</p>
+              {state.locked ? (
+                <LockClosedIcon className="h-5 w-5 text-red-500" />
+              ) : (
+                <ExclamationCircleIcon className="h-5 w-5 text-red-500" />
+              )}
+              <p className="text-sm text-red-500">{state.message}</p>
             </>
           )}
         </div>
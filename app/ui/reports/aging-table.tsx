@@ -0,0 +1,104 @@
+import Link from 'next/link';
+import clsx from 'clsx';
+import { fetchAgingReport } from '@/app/lib/data';
+import { AgingReportRow } from '@/app/lib/definitions';
+import { agingBucketLabels, agingBuckets, formatCurrency } from '@/app/lib/utils';
+
+function AgingCells({ row }: { row: AgingReportRow }) {
+  return (
+    <>
+      {agingBuckets.map((bucket) => (
+        <td
+          key={bucket}
+          className={clsx('whitespace-nowrap px-3 py-4 text-right', {
+            'text-gray-400': row[bucket] === 0,
+            'text-red-600': bucket === 'days_over_90' && row[bucket] > 0,
+          })}
+        >
+          {formatCurrency(row[bucket])}
+        </td>
+      ))}
+      <td className="whitespace-nowrap px-4 py-4 text-right font-medium">
+        {formatCurrency(row.total)}
+      </td>
+    </>
+  );
+}
+
+export default async function AgingTable() {
+  const { customers, total } = await fetchAgingReport();
+
+  return (
+    <div className="mt-6 flow-root">
+      <div className="overflow-x-auto">
+        <div className="inline-block min-w-full align-middle">
+          <div className="overflow-hidden rounded-md bg-gray-50 p-2 md:pt-0">
+            <table className="min-w-full text-sm text-gray-900">
+              <thead className="text-left font-normal">
+                <tr>
+                  <th scope="col" className="px-4 py-5 font-medium sm:pl-6">
+                    Customer
+                  </th>
+                  <th scope="col" className="px-3 py-5 text-right font-medium">
+                    Invoices
+                  </th>
+                  {agingBuckets.map((bucket) => (
+                    <th
+                      key={bucket}
+                      scope="col"
+                      className="whitespace-nowrap px-3 py-5 text-right font-medium"
+                    >
+                      {agingBucketLabels[bucket]}
+                    </th>
+                  ))}
+                  <th scope="col" className="px-4 py-5 text-right font-medium">
+                    Total
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 bg-white">
+                {customers.length === 0 && (
+                  <tr>
+                    <td colSpan={7} className="p-4 text-gray-500">
+                      No pending invoices.
+                    </td>
+                  </tr>
+                )}
+                {customers.map((row) => (
+                  <tr key={row.customer_id}>
+                    <td className="whitespace-nowrap py-4 pl-4 pr-3 sm:pl-6">
+                      {row.name ? (
+                        <Link
+                          href={`/dashboard/customers/${row.customer_id}`}
+                          className="hover:text-blue-600 hover:underline"
+                        >
+                          {row.name}
+                        </Link>
+                      ) : (
+                        <span className="text-gray-500">Deleted customer</span>
+                      )}
+                      {row.email && (
+                        <p className="text-xs text-gray-500">{row.email}</p>
+                      )}
+                    </td>
+                    <td className="px-3 py-4 text-right">{row.invoices}</td>
+                    <AgingCells row={row} />
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="border-t-2 border-gray-300 bg-white font-medium">
+                <tr>
+                  <th scope="row" className="py-4 pl-4 pr-3 text-left sm:pl-6">
+                    Total
+                  </th>
+                  <td className="px-3 py-4 text-right">{total.invoices}</td>
+                  <AgingCells row={total} />
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+import { ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+
+export function ExportAgingReport() {
+  return (
+    <a
+      href="/dashboard/reports/aging/export"
+      className="flex h-10 items-center rounded-lg border border-gray-200 px-4 text-sm font-medium text-gray-600 transition-colors hover:bg-gray-100"
+    >
+      <span className="hidden md:block">Export</span>{' '}
+      <ArrowDownTrayIcon className="h-5 md:ml-4" />
+    </a>
+  );
+}
@@ -0,0 +1,88 @@
+'use client';
+
+import Link from 'next/link';
+import { lusitana } from '@/app/ui/fonts';
+import { ExclamationCircleIcon, KeyIcon } from '@heroicons/react/24/outline';
+import { ArrowRightIcon } from '@heroicons/react/20/solid';
+import { Button } from './button';
+import { useActionState } from 'react';
+import { PasswordState, resetPassword } from '@/app/lib/actions';
+
+export default function ResetPasswordForm({ token }: { token: string }) {
+  const initialState: PasswordState = { message: null, errors: {} };
+  const resetPasswordWithToken = resetPassword.bind(null, token);
+  const [state, formAction, isPending] = useActionState(
+    resetPasswordWithToken,
+    initialState,
+  );
+
+  return (
+    <form action={formAction} className="space-y-3">
+      <div className="flex-1 rounded-lg bg-gray-50 px-6 pb-4 pt-8">
+        <h1 className={`${lusitana.className} mb-3 text-2xl`}>
+          Choose a new password.
+        </h1>
+        <div className="w-full">
+          {(
+            [
+              ['password', 'New password', 'At least 6 characters'],
+              ['confirmPassword', 'Confirm new password', 'Type it again'],
+            ] as const
+          ).map(([name, label, placeholder]) => (
+            <div key={name} className="mt-4">
+              <label
+                className="mb-3 mt-5 block text-xs font-medium text-gray-900"
+                htmlFor={name}
+              >
+                {label}
+              </label>
+              <div className="relative">
+                <input
+                  className="peer block w-full rounded-md border border-gray-200 py-[9px] pl-10 text-sm outline-2 placeholder:text-gray-500"
+                  id={name}
+                  type="password"
+                  name={name}
+                  placeholder={placeholder}
+                  autoComplete="new-password"
+                  required
+                  minLength={6}
+                  aria-describedby={`${name}-error`}
+                />
+                <KeyIcon className="pointer-events-none absolute left-3 top-1/2 h-[18px] w-[18px] -translate-y-1/2 text-gray-500 peer-focus:text-gray-900" />
+              </div>
+              <div id={`${name}-error`} aria-live="polite" aria-atomic="true">
+                {state.errors?.[name]?.map((error: string) => (
+                  <p className="mt-2 text-sm text-red-500" key={error}>
+                    {error}
+                  </p>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+        <Button className="mt-4 w-full" aria-disabled={isPending}>
+          Set password{' '}
+          <ArrowRightIcon className="ml-auto h-5 w-5 text-gray-50" />
+        </Button>
+        <div
+          className="flex min-h-8 items-end space-x-1 pt-2"
+          aria-live="polite"
+          aria-atomic="true"
+        >
+          {state.message && (
+            <>
+              <ExclamationCircleIcon className="h-5 w-5 shrink-0 text-red-500" />
+              <p className="text-sm text-red-500">{state.message}</p>
+            </>
+          )}
+        </div>
+        <Link
+          href="/forgot-password"
+          className="mt-2 block text-sm text-blue-600 hover:underline"
+        >
+          Request a new link
+        </Link>
+      </div>
+    </form>
+  );
+}
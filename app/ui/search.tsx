@@ -18,6 +18,10 @@ export default function Search({ placeholder }: { placeholder: string }) {
       } else {
         params.delete('query');
       }
+      // New results start from the first page
+      params.delete('page');
+      params.delete('after');
+      params.delete('before');
       replace(`${pathname}?${params.toString()}`);
     }, 300);
   return (
@@ -25,6 +25,7 @@ export function CardsSkeleton() {
       <CardSkeleton />
       <CardSkeleton />
       <CardSkeleton />
+      <CardSkeleton />
     </>
   );
 }
@@ -34,7 +35,8 @@ export function RevenueChartSkeleton() {
     <div className={`${shimmer} relative w-full overflow-hidden md:col-span-4`}>
       <div className="mb-4 h-8 w-36 rounded-md bg-gray-100" />
       <div className="rounded-xl bg-gray-100 p-4">
-        <div className="sm:grid-cols-13 mt-0 grid h-[410px] grid-cols-12 items-end gap-2 rounded-md bg-white p-4 md:gap-4" />
+        <div className="mb-4 h-[58px] w-64 rounded-md bg-gray-200" />
+        <div className="h-[410px] rounded-md bg-white p-4" />
         <div className="flex items-center pb-2 pt-6">
           <div className="h-5 w-5 rounded-full bg-gray-200" />
           <div className="ml-2 h-4 w-20 rounded-md bg-gray-200" />
@@ -88,7 +90,8 @@ export default function DashboardSkeleton() {
       <div
         className={`${shimmer} relative mb-4 h-8 w-36 overflow-hidden rounded-md bg-gray-100`}
       />
-      <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-4">
+      <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-5">
+        <CardSkeleton />
         <CardSkeleton />
         <CardSkeleton />
         <CardSkeleton />
@@ -124,6 +127,10 @@ export function TableRowSkeleton() {
       <td className="whitespace-nowrap px-3 py-3">
         <div className="h-6 w-16 rounded bg-gray-100"></div>
       </td>
+      {/* Due Date */}
+      <td className="whitespace-nowrap px-3 py-3">
+        <div className="h-6 w-16 rounded bg-gray-100"></div>
+      </td>
       {/* Status */}
       <td className="whitespace-nowrap px-3 py-3">
         <div className="h-6 w-16 rounded bg-gray-100"></div>
@@ -133,6 +140,9 @@ export function TableRowSkeleton() {
         <div className="flex justify-end gap-3">
           <div className="h-[38px] w-[38px] rounded bg-gray-100"></div>
           <div className="h-[38px] w-[38px] rounded bg-gray-100"></div>
+          <div className="h-[38px] w-[38px] rounded bg-gray-100"></div>
+          <div className="h-[38px] w-[38px] rounded bg-gray-100"></div>
+          <div className="h-[38px] w-[38px] rounded bg-gray-100"></div>
         </div>
       </td>
     </tr>
@@ -157,6 +167,9 @@ export function InvoicesMobileSkeleton() {
         <div className="flex justify-end gap-2">
           <div className="h-10 w-10 rounded bg-gray-100"></div>
           <div className="h-10 w-10 rounded bg-gray-100"></div>
+          <div className="h-10 w-10 rounded bg-gray-100"></div>
+          <div className="h-10 w-10 rounded bg-gray-100"></div>
+          <div className="h-10 w-10 rounded bg-gray-100"></div>
         </div>
       </div>
     </div>
@@ -191,6 +204,9 @@ export function InvoicesTableSkeleton() {
                 <th scope="col" className="px-3 py-5 font-medium">
                   Date
                 </th>
+                <th scope="col" className="px-3 py-5 font-medium">
+                  Due
+                </th>
                 <th scope="col" className="px-3 py-5 font-medium">
                   Status
                 </th>
@@ -216,3 +232,160 @@ export function InvoicesTableSkeleton() {
     </div>
   );
 }
+
+export function CustomersTableRowSkeleton() {
+  return (
+    <tr className="w-full border-b border-gray-100 last-of-type:border-none">
+      {/* Customer Name and Image */}
+      <td className="relative overflow-hidden whitespace-nowrap py-5 pl-4 pr-3 sm:pl-6">
+        <div className="flex items-center gap-3">
+          <div className="h-7 w-7 rounded-full bg-gray-100"></div>
+          <div className="h-6 w-24 rounded bg-gray-100"></div>
+        </div>
+      </td>
+      {/* Email */}
+      <td className="whitespace-nowrap px-4 py-5">
+        <div className="h-6 w-32 rounded bg-gray-100"></div>
+      </td>
+      {/* Total Invoices */}
+      <td className="whitespace-nowrap px-4 py-5">
+        <div className="h-6 w-8 rounded bg-gray-100"></div>
+      </td>
+      {/* Total Pending */}
+      <td className="whitespace-nowrap px-4 py-5">
+        <div className="h-6 w-16 rounded bg-gray-100"></div>
+      </td>
+      {/* Total Paid */}
+      <td className="whitespace-nowrap px-4 py-5">
+        <div className="h-6 w-16 rounded bg-gray-100"></div>
+      </td>
+      {/* Actions */}
+      <td className="whitespace-nowrap py-5 pl-6 pr-3">
+        <div className="flex justify-end gap-3">
+          <div className="h-[38px] w-[38px] rounded bg-gray-100"></div>
+          <div className="h-[38px] w-[38px] rounded bg-gray-100"></div>
+        </div>
+      </td>
+    </tr>
+  );
+}
+
+export function CustomersMobileSkeleton() {
+  return (
+    <div className="mb-2 w-full rounded-md bg-white p-4">
+      <div className="flex items-center justify-between border-b border-gray-100 pb-4">
+        <div>
+          <div className="mb-2 flex items-center">
+            <div className="mr-3 h-7 w-7 rounded-full bg-gray-100"></div>
+            <div className="h-6 w-24 rounded bg-gray-100"></div>
+          </div>
+          <div className="h-5 w-32 rounded bg-gray-100"></div>
+        </div>
+      </div>
+      <div className="flex w-full items-center justify-between border-b border-gray-100 py-5">
+        <div className="h-10 w-16 rounded bg-gray-100"></div>
+        <div className="h-10 w-16 rounded bg-gray-100"></div>
+      </div>
+      <div className="flex items-center justify-between pt-4">
+        <div className="h-5 w-20 rounded bg-gray-100"></div>
+        <div className="flex justify-end gap-2">
+          <div className="h-10 w-10 rounded bg-gray-100"></div>
+          <div className="h-10 w-10 rounded bg-gray-100"></div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function CustomersTableSkeleton() {
+  return (
+    <div className="mt-6 flow-root">
+      <div className="inline-block min-w-full align-middle">
+        <div className="rounded-md bg-gray-50 p-2 md:pt-0">
+          <div className="md:hidden">
+            <CustomersMobileSkeleton />
+            <CustomersMobileSkeleton />
+            <CustomersMobileSkeleton />
+            <CustomersMobileSkeleton />
+            <CustomersMobileSkeleton />
+            <CustomersMobileSkeleton />
+          </div>
+          <table className="hidden min-w-full rounded-md text-gray-900 md:table">
+            <thead className="rounded-md bg-gray-50 text-left text-sm font-normal">
+              <tr>
+                <th scope="col" className="px-4 py-5 font-medium sm:pl-6">
+                  Name
+                </th>
+                <th scope="col" className="px-3 py-5 font-medium">
+                  Email
+                </th>
+                <th scope="col" className="px-3 py-5 font-medium">
+                  Total Invoices
+                </th>
+                <th scope="col" className="px-3 py-5 font-medium">
+                  Total Pending
+                </th>
+                <th scope="col" className="px-4 py-5 font-medium">
+                  Total Paid
+                </th>
+                <th
+                  scope="col"
+                  className="relative pb-4 pl-3 pr-6 pt-2 sm:pr-6"
+                >
+                  <span className="sr-only">Edit</span>
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white">
+              <CustomersTableRowSkeleton />
+              <CustomersTableRowSkeleton />
+              <CustomersTableRowSkeleton />
+              <CustomersTableRowSkeleton />
+              <CustomersTableRowSkeleton />
+              <CustomersTableRowSkeleton />
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function AuditEntrySkeleton() {
+  return (
+    <div className="mb-2 rounded-md bg-white p-4">
+      <div className="flex justify-between">
+        <div className="h-5 w-40 rounded bg-gray-100"></div>
+        <div className="h-5 w-48 rounded bg-gray-100"></div>
+      </div>
+      <div className="mt-3 h-4 w-2/3 rounded bg-gray-100"></div>
+      <div className="mt-2 h-4 w-1/2 rounded bg-gray-100"></div>
+    </div>
+  );
+}
+
+export function AuditLogSkeleton() {
+  return (
+    <div className={`${shimmer} relative mt-6 overflow-hidden rounded-lg bg-gray-50 p-2`}>
+      <AuditEntrySkeleton />
+      <AuditEntrySkeleton />
+      <AuditEntrySkeleton />
+      <AuditEntrySkeleton />
+      <AuditEntrySkeleton />
+      <AuditEntrySkeleton />
+    </div>
+  );
+}
+
+export function AgingReportSkeleton() {
+  return (
+    <div className={`${shimmer} relative mt-6 overflow-hidden rounded-md bg-gray-50 p-2`}>
+      <div className="mb-2 h-12 rounded-md bg-gray-100" />
+      <div className="space-y-px">
+        {Array.from({ length: 6 }, (_, i) => (
+          <div key={i} className="h-[60px] rounded-md bg-white" />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import { ChevronDownIcon, ChevronUpIcon } from '@heroicons/react/20/solid';
+import Link from 'next/link';
+import { usePathname, useSearchParams } from 'next/navigation';
+import { Sort } from '@/app/lib/definitions';
+
+// Table header that sorts by its column via ?sort= and ?dir=. Clicking the
+// active column reverses the direction; other params are kept, except the
+// page or cursor, which starts over.
+export default function SortableHeader({
+  column,
+  label,
+  sort,
+  className,
+}: {
+  column: string;
+  label: string;
+  sort: Sort<string>;
+  className: string;
+}) {
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const isActive = sort.column === column;
+
+  const params = new URLSearchParams(searchParams);
+  params.set('sort', column);
+  params.set('dir', isActive && sort.dir === 'asc' ? 'desc' : 'asc');
+  params.delete('page');
+  params.delete('after');
+  params.delete('before');
+
+  const Icon = sort.dir === 'asc' ? ChevronUpIcon : ChevronDownIcon;
+
+  return (
+    <th
+      scope="col"
+      className={className}
+      aria-sort={
+        isActive ? (sort.dir === 'asc' ? 'ascending' : 'descending') : undefined
+      }
+    >
+      <Link
+        href={`${pathname}?${params.toString()}`}
+        className="group inline-flex items-center gap-1 hover:text-blue-600"
+      >
+        {label}
+        {isActive ? (
+          <Icon className="h-4 w-4" />
+        ) : (
+          <ChevronUpIcon className="invisible h-4 w-4 text-gray-400 group-hover:visible" />
+        )}
+      </Link>
+    </th>
+  );
+}
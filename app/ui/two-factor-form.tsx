@@ -0,0 +1,77 @@
+'use client';
+
+import { lusitana } from '@/app/ui/fonts';
+import {
+  DevicePhoneMobileIcon,
+  ExclamationCircleIcon,
+  LockClosedIcon,
+} from '@heroicons/react/24/outline';
+import { ArrowRightIcon } from '@heroicons/react/20/solid';
+import { Button } from './button';
+import { useActionState } from 'react';
+import { verifyTwoFactorLogin } from '@/app/lib/actions';
+import { useSearchParams } from 'next/navigation';
+
+export default function TwoFactorForm() {
+  const searchParams = useSearchParams();
+  const callbackUrl = searchParams.get('callbackUrl') || '/dashboard';
+  const [state, formAction, isPending] = useActionState(
+    verifyTwoFactorLogin,
+    undefined,
+  );
+
+  return (
+    <form action={formAction} className="space-y-3">
+      <div className="flex-1 rounded-lg bg-gray-50 px-6 pb-4 pt-8">
+        <h1 className={`${lusitana.className} mb-3 text-2xl`}>
+          Two-factor sign-in
+        </h1>
+        <p className="text-sm text-gray-500">
+          Enter the code from your authenticator app. If you don&apos;t have
+          your phone, enter one of your recovery codes instead.
+        </p>
+        <div className="w-full">
+          <label
+            className="mb-3 mt-5 block text-xs font-medium text-gray-900"
+            htmlFor="code"
+          >
+            Code
+          </label>
+          <div className="relative">
+            <input
+              className="peer block w-full rounded-md border border-gray-200 py-[9px] pl-10 text-sm outline-2 placeholder:text-gray-500"
+              id="code"
+              type="text"
+              name="code"
+              placeholder="123456"
+              autoComplete="one-time-code"
+              autoFocus
+              required
+            />
+            <DevicePhoneMobileIcon className="pointer-events-none absolute left-3 top-1/2 h-[18px] w-[18px] -translate-y-1/2 text-gray-500 peer-focus:text-gray-900" />
+          </div>
+        </div>
+        <input type="hidden" name="redirectTo" value={callbackUrl} />
+        <Button className="mt-4 w-full" aria-disabled={isPending}>
+          Verify <ArrowRightIcon className="ml-auto h-5 w-5 text-gray-50" />
+        </Button>
+        <div
+          className="flex h-8 items-end space-x-1"
+          aria-live="polite"
+          aria-atomic="true"
+        >
+          {state && (
+            <>
+              {state.locked ? (
+                <LockClosedIcon className="h-5 w-5 text-red-500" />
+              ) : (
+                <ExclamationCircleIcon className="h-5 w-5 text-red-500" />
+              )}
+              <p className="text-sm text-red-500">{state.message}</p>
+            </>
+          )}
+        </div>
+      </div>
+    </form>
+  );
+}
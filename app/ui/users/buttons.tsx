@@ -0,0 +1,99 @@
+import {
+  KeyIcon,
+  LockClosedIcon,
+  LockOpenIcon,
+  PencilIcon,
+  PlusIcon,
+  UserMinusIcon,
+} from '@heroicons/react/24/outline';
+import Link from 'next/link';
+import { deactivateUser, reactivateUser, removeMember } from '@/app/lib/actions';
+import ConfirmDialog from '@/app/ui/confirm-dialog';
+
+export function InviteUser() {
+  return (
+    <Link
+      href="/dashboard/users/create"
+      className="flex h-10 items-center rounded-lg bg-blue-600 px-4 text-sm font-medium text-white transition-colors hover:bg-blue-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-blue-600"
+    >
+      <span className="hidden md:block">Invite User</span>{' '}
+      <PlusIcon className="h-5 md:ml-4" />
+    </Link>
+  );
+}
+
+export function UpdateUser({ id }: { id: string }) {
+  return (
+    <Link
+      href={`/dashboard/users/${id}/edit`}
+      className="rounded-md border p-2 hover:bg-gray-100"
+    >
+      <span className="sr-only">Edit</span>
+      <PencilIcon className="w-5" />
+    </Link>
+  );
+}
+
+export function ResetPassword({ id }: { id: string }) {
+  return (
+    <Link
+      href={`/dashboard/users/${id}/password`}
+      className="rounded-md border p-2 hover:bg-gray-100"
+    >
+      <span className="sr-only">Reset password</span>
+      <KeyIcon className="w-5" />
+    </Link>
+  );
+}
+
+// Deactivates an active user, or reactivates a deactivated one
+export function ToggleUserActive({
+  id,
+  name,
+  deactivated,
+}: {
+  id: string;
+  name: string;
+  deactivated: boolean;
+}) {
+  if (deactivated) {
+    return (
+      <ConfirmDialog
+        action={reactivateUser.bind(null, id)}
+        title={`Reactivate ${name}?`}
+        description="They will be able to sign in again with their current password."
+        confirmLabel="Reactivate"
+      >
+        <span className="sr-only">Reactivate</span>
+        <LockOpenIcon className="w-5" />
+      </ConfirmDialog>
+    );
+  }
+
+  return (
+    <ConfirmDialog
+      action={deactivateUser.bind(null, id)}
+      title={`Deactivate ${name}?`}
+      description="They will no longer be able to sign in. Their changes stay in the audit log."
+      confirmLabel="Deactivate"
+    >
+      <span className="sr-only">Deactivate</span>
+      <LockClosedIcon className="w-5" />
+    </ConfirmDialog>
+  );
+}
+
+// Takes a user who also belongs to another organization out of this one
+export function RemoveMember({ id, name }: { id: string; name: string }) {
+  return (
+    <ConfirmDialog
+      action={removeMember.bind(null, id)}
+      title={`Remove ${name}?`}
+      description="They will no longer be able to see this organization. They keep their account and the other organizations they belong to."
+      confirmLabel="Remove"
+    >
+      <span className="sr-only">Remove</span>
+      <UserMinusIcon className="w-5" />
+    </ConfirmDialog>
+  );
+}
@@ -0,0 +1,140 @@
+'use client';
+
+import Link from 'next/link';
+import {
+  AtSymbolIcon,
+  ShieldCheckIcon,
+  UserCircleIcon,
+} from '@heroicons/react/24/outline';
+import { Button } from '@/app/ui/button';
+import { updateUser, UserState } from '@/app/lib/actions';
+import { UserForm } from '@/app/lib/definitions';
+import { roles } from '@/app/lib/permissions';
+import { useActionState } from 'react';
+
+export default function EditUserForm({ user }: { user: UserForm }) {
+  const initialState: UserState = { message: null, errors: {} };
+  const updateUserWithId = updateUser.bind(null, user.id);
+  const [state, formAction] = useActionState(updateUserWithId, initialState);
+  // Users who also belong to another organization keep their own details
+  const shared = user.other_organizations > 0;
+
+  return (
+    <form action={formAction}>
+      <div className="rounded-md bg-gray-50 p-4 md:p-6">
+        {/* User Name */}
+        <div className="mb-4">
+          <label htmlFor="name" className="mb-2 block text-sm font-medium">
+            Name
+          </label>
+          <div className="relative">
+            <input
+              id="name"
+              name="name"
+              defaultValue={user.name}
+              readOnly={shared}
+              type="text"
+              placeholder="Enter their name"
+              className="peer block w-full rounded-md border border-gray-200 py-2 pl-10 text-sm outline-2 placeholder:text-gray-500"
+              aria-describedby="name-error"
+            />
+            <UserCircleIcon className="pointer-events-none absolute left-3 top-1/2 h-[18px] w-[18px] -translate-y-1/2 text-gray-500 peer-focus:text-gray-900" />
+          </div>
+          <div id="name-error" aria-live="polite" aria-atomic="true">
+            {state.errors?.name &&
+              state.errors.name.map((error: string) => (
+                <p className="mt-2 text-sm text-red-500" key={error}>
+                  {error}
+                </p>
+              ))}
+          </div>
+        </div>
+
+        {/* User Email */}
+        <div className="mb-4">
+          <label htmlFor="email" className="mb-2 block text-sm font-medium">
+            Email
+          </label>
+          <div className="relative">
+            <input
+              id="email"
+              name="email"
+              defaultValue={user.email}
+              readOnly={shared}
+              type="email"
+              placeholder="Enter the email they will sign in with"
+              className="peer block w-full rounded-md border border-gray-200 py-2 pl-10 text-sm outline-2 placeholder:text-gray-500"
+              aria-describedby="email-error"
+            />
+            <AtSymbolIcon className="pointer-events-none absolute left-3 top-1/2 h-[18px] w-[18px] -translate-y-1/2 text-gray-500 peer-focus:text-gray-900" />
+          </div>
+          {shared && (
+            <p className="mt-2 text-xs text-gray-500">
+              They also belong to another organization, so only they can
+              change their name and email.
+            </p>
+          )}
+          <div id="email-error" aria-live="polite" aria-atomic="true">
+            {state.errors?.email &&
+              state.errors.email.map((error: string) => (
+                <p className="mt-2 text-sm text-red-500" key={error}>
+                  {error}
+                </p>
+              ))}
+          </div>
+        </div>
+
+        {/* User Role */}
+        <div className="mb-4">
+          <label htmlFor="role" className="mb-2 block text-sm font-medium">
+            Role
+          </label>
+          <div className="relative">
+            <select
+              id="role"
+              name="role"
+              className="peer block w-full cursor-pointer rounded-md border border-gray-200 py-2 pl-10 text-sm capitalize outline-2 placeholder:text-gray-500"
+              defaultValue={user.role}
+              aria-describedby="role-error"
+            >
+              {roles.map((role) => (
+                <option key={role} value={role}>
+                  {role}
+                </option>
+              ))}
+            </select>
+            <ShieldCheckIcon className="pointer-events-none absolute left-3 top-1/2 h-[18px] w-[18px] -translate-y-1/2 text-gray-500" />
+          </div>
+          <p className="mt-2 text-xs text-gray-500">
+            Viewers can only look. Accountants can also manage invoices,
+            payments and customers. Admins can do everything, including
+            managing users.
+          </p>
+          <div id="role-error" aria-live="polite" aria-atomic="true">
+            {state.errors?.role &&
+              state.errors.role.map((error: string) => (
+                <p className="mt-2 text-sm text-red-500" key={error}>
+                  {error}
+                </p>
+              ))}
+          </div>
+        </div>
+
+        <div aria-live="polite" aria-atomic="true">
+          {state.message && (
+            <p className="mt-2 text-sm text-red-500">{state.message}</p>
+          )}
+        </div>
+      </div>
+      <div className="mt-6 flex justify-end gap-4">
+        <Link
+          href="/dashboard/users"
+          className="flex h-10 items-center rounded-lg bg-gray-100 px-4 text-sm font-medium text-gray-600 transition-colors hover:bg-gray-200"
+        >
+          Cancel
+        </Link>
+        <Button type="submit">Save User</Button>
+      </div>
+    </form>
+  );
+}
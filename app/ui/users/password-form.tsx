@@ -0,0 +1,69 @@
+'use client';
+
+import Link from 'next/link';
+import { KeyIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/app/ui/button';
+import { resetUserPassword, UserState } from '@/app/lib/actions';
+import { UserForm } from '@/app/lib/definitions';
+import { useActionState } from 'react';
+
+export default function ResetPasswordForm({ user }: { user: UserForm }) {
+  const initialState: UserState = { message: null, errors: {} };
+  const resetUserPasswordWithId = resetUserPassword.bind(null, user.id);
+  const [state, formAction] = useActionState(
+    resetUserPasswordWithId,
+    initialState,
+  );
+
+  return (
+    <form action={formAction}>
+      <div className="rounded-md bg-gray-50 p-4 md:p-6">
+        <p className="mb-4 text-sm text-gray-500">
+          Set a new password for {user.name} ({user.email}). Their old password
+          stops working straight away, and they are signed out everywhere.
+        </p>
+        {/* User Password */}
+        <div className="mb-4">
+          <label htmlFor="password" className="mb-2 block text-sm font-medium">
+            Password
+          </label>
+          <div className="relative">
+            <input
+              id="password"
+              name="password"
+              type="password"
+              placeholder="At least 6 characters"
+              autoComplete="new-password"
+              className="peer block w-full rounded-md border border-gray-200 py-2 pl-10 text-sm outline-2 placeholder:text-gray-500"
+              aria-describedby="password-error"
+            />
+            <KeyIcon className="pointer-events-none absolute left-3 top-1/2 h-[18px] w-[18px] -translate-y-1/2 text-gray-500 peer-focus:text-gray-900" />
+          </div>
+          <div id="password-error" aria-live="polite" aria-atomic="true">
+            {state.errors?.password &&
+              state.errors.password.map((error: string) => (
+                <p className="mt-2 text-sm text-red-500" key={error}>
+                  {error}
+                </p>
+              ))}
+          </div>
+        </div>
+
+        <div aria-live="polite" aria-atomic="true">
+          {state.message && (
+            <p className="mt-2 text-sm text-red-500">{state.message}</p>
+          )}
+        </div>
+      </div>
+      <div className="mt-6 flex justify-end gap-4">
+        <Link
+          href="/dashboard/users"
+          className="flex h-10 items-center rounded-lg bg-gray-100 px-4 text-sm font-medium text-gray-600 transition-colors hover:bg-gray-200"
+        >
+          Cancel
+        </Link>
+        <Button type="submit">Reset Password</Button>
+      </div>
+    </form>
+  );
+}
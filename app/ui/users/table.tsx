@@ -0,0 +1,120 @@
+import clsx from 'clsx';
+import {
+  RemoveMember,
+  ResetPassword,
+  ToggleUserActive,
+  UpdateUser,
+} from '@/app/ui/users/buttons';
+import { fetchUsers } from '@/app/lib/data';
+import { formatDateToLocal } from '@/app/lib/utils';
+import { UsersTable as UsersTableType } from '@/app/lib/definitions';
+
+function UserStatus({ user }: { user: UsersTableType }) {
+  return (
+    <span
+      className={clsx('inline-flex rounded-full px-2 py-1 text-xs', {
+        'bg-green-500 text-white': !user.deactivated_at,
+        'bg-gray-100 text-gray-500': user.deactivated_at,
+      })}
+    >
+      {user.deactivated_at
+        ? `Deactivated ${formatDateToLocal(user.deactivated_at)}`
+        : 'Active'}
+    </span>
+  );
+}
+
+// Users who also belong to another organization can only be removed from
+// this one; their password and whether they can sign in are their own
+function UserActions({ user }: { user: UsersTableType }) {
+  return (
+    <div className="flex justify-end gap-3">
+      <UpdateUser id={user.id} />
+      {user.other_organizations > 0 ? (
+        <RemoveMember id={user.id} name={user.name} />
+      ) : (
+        <>
+          <ResetPassword id={user.id} />
+          <ToggleUserActive
+            id={user.id}
+            name={user.name}
+            deactivated={!!user.deactivated_at}
+          />
+        </>
+      )}
+    </div>
+  );
+}
+
+export default async function UsersTable() {
+  const users = await fetchUsers();
+
+  return (
+    <div className="mt-6 flow-root">
+      <div className="inline-block min-w-full align-middle">
+        <div className="rounded-lg bg-gray-50 p-2 md:pt-0">
+          <div className="md:hidden">
+            {users.map((user) => (
+              <div key={user.id} className="mb-2 w-full rounded-md bg-white p-4">
+                <div className="flex items-center justify-between border-b pb-4">
+                  <div>
+                    <p className="mb-2">{user.name}</p>
+                    <p className="text-sm text-gray-500">{user.email}</p>
+                  </div>
+                  <UserStatus user={user} />
+                </div>
+                <div className="flex w-full items-center justify-between pt-4">
+                  <p className="capitalize">{user.role}</p>
+                  <UserActions user={user} />
+                </div>
+              </div>
+            ))}
+          </div>
+          <table className="hidden min-w-full text-gray-900 md:table">
+            <thead className="rounded-lg text-left text-sm font-normal">
+              <tr>
+                <th scope="col" className="px-4 py-5 font-medium sm:pl-6">
+                  Name
+                </th>
+                <th scope="col" className="px-3 py-5 font-medium">
+                  Email
+                </th>
+                <th scope="col" className="px-3 py-5 font-medium">
+                  Role
+                </th>
+                <th scope="col" className="px-3 py-5 font-medium">
+                  Status
+                </th>
+                <th scope="col" className="relative py-3 pl-6 pr-3">
+                  <span className="sr-only">Edit</span>
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white">
+              {users.map((user) => (
+                <tr
+                  key={user.id}
+                  className="w-full border-b py-3 text-sm last-of-type:border-none [&:first-child>td:first-child]:rounded-tl-lg [&:first-child>td:last-child]:rounded-tr-lg [&:last-child>td:first-child]:rounded-bl-lg [&:last-child>td:last-child]:rounded-br-lg"
+                >
+                  <td className="whitespace-nowrap py-3 pl-6 pr-3">
+                    {user.name}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-3">{user.email}</td>
+                  <td className="whitespace-nowrap px-3 py-3 capitalize">
+                    {user.role}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-3">
+                    <UserStatus user={user} />
+                  </td>
+                  <td className="whitespace-nowrap py-3 pl-6 pr-3">
+                    <UserActions user={user} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
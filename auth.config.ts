@@ -1,5 +1,48 @@
-import type { NextAuthConfig } from 'next-auth';
- 
+import type { DefaultSession, NextAuthConfig } from 'next-auth';
+import type { Role } from '@/app/lib/definitions';
+import { can, Permission } from '@/app/lib/permissions';
+
+// Carry the user's active organization and their role in it from sign-in,
+// through the JWT, into the session, along with whether they still owe a
+// two-factor code
+declare module 'next-auth' {
+  interface User {
+    role?: Role;
+    organizationId?: string;
+    twoFactorEnabled?: boolean;
+  }
+  interface Session {
+    user: {
+      role?: Role;
+      organizationId?: string;
+      twoFactorPending?: boolean;
+    } & DefaultSession['user'];
+  }
+}
+
+declare module '@auth/core/jwt' {
+  interface JWT {
+    role?: Role;
+    organizationId?: string;
+    twoFactorPending?: boolean;
+  }
+}
+
+// The second login step, for users with two-factor sign-in turned on
+const twoFactorPage = '/login/two-factor';
+
+// Dashboard pages that change data, and the permission each needs.
+// Server actions check the same permissions.
+const restrictedPages: [RegExp, Permission][] = [
+  [/^\/dashboard\/invoices\/(create|import|trash)$/, 'manage_invoices'],
+  [/^\/dashboard\/invoices\/[^/]+\/edit$/, 'manage_invoices'],
+  [/^\/dashboard\/invoices\/[^/]+\/payments$/, 'record_payments'],
+  [/^\/dashboard\/customers\/(create|import)$/, 'manage_customers'],
+  [/^\/dashboard\/customers\/[^/]+\/edit$/, 'manage_customers'],
+  [/^\/dashboard\/audit$/, 'view_audit_log'],
+  [/^\/dashboard\/users(\/.*)?$/, 'manage_users'],
+];
+
 export const authConfig = {
   pages: {
     signIn: '/login',
@@ -7,15 +50,57 @@ export const authConfig = {
   callbacks: {
     authorized({ auth, request: { nextUrl } }) {
       const isLoggedIn = !!auth?.user;
+      const isTwoFactorPending = !!auth?.user?.twoFactorPending;
       const isOnDashboard = nextUrl.pathname.startsWith('/dashboard');
-      if (isOnDashboard) {
-        if (isLoggedIn) return true;
-        return false; // Redirect unauthenticated users to login page
+      if (nextUrl.pathname === twoFactorPage) {
+        if (!isLoggedIn) return false; // Nothing to verify before a password
+        if (isTwoFactorPending) return true;
+        return Response.redirect(new URL('/dashboard', nextUrl));
+      } else if (isTwoFactorPending) {
+        // Past the password but not the code, so not fully signed in anywhere.
+        // Dashboard pages are returned to once the code is in.
+        const twoFactorUrl = new URL(twoFactorPage, nextUrl);
+        if (isOnDashboard) {
+          twoFactorUrl.searchParams.set(
+            'callbackUrl',
+            nextUrl.pathname + nextUrl.search,
+          );
+        }
+        return Response.redirect(twoFactorUrl);
+      } else if (isOnDashboard) {
+        if (!isLoggedIn) return false; // Redirect unauthenticated users to login page
+        const restricted = restrictedPages.find(([page]) =>
+          page.test(nextUrl.pathname),
+        );
+        if (restricted && !can(auth.user?.role, restricted[1])) {
+          return Response.redirect(new URL('/dashboard', nextUrl)); // Signed in, but not allowed here
+        }
+        return true;
       } else if (isLoggedIn) {
         return Response.redirect(new URL('/dashboard', nextUrl));
       }
       return true;
     },
+    jwt({ token, user }) {
+      // Only set on sign-in. Codes and organization switches are checked in
+      // auth.ts, which can reach the database.
+      if (user) {
+        token.role = user.role;
+        token.organizationId = user.organizationId;
+        token.twoFactorPending = !!user.twoFactorEnabled;
+      }
+      return token;
+    },
+    // Expose the user's id, which the audit log records against each change,
+    // their role, which decides what they can do, the organization whose data
+    // they see, and whether they still have to enter a two-factor code
+    session({ session, token }) {
+      if (token.sub) session.user.id = token.sub;
+      session.user.role = token.role;
+      session.user.organizationId = token.organizationId;
+      session.user.twoFactorPending = !!token.twoFactorPending;
+      return session;
+    },
   },
   providers: [], // Add providers with an empty array for now
-} satisfies NextAuthConfig;
\ No newline at end of file
+} satisfies NextAuthConfig;
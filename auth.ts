@@ -1,10 +1,18 @@
-import NextAuth from 'next-auth';
+import NextAuth, { type Session } from 'next-auth';
 import { authConfig } from './auth.config';
 import Credentials from 'next-auth/providers/credentials';
 import { z } from 'zod';
-import type { User } from '@/app/lib/definitions';
+import type { Role, User } from '@/app/lib/definitions';
 import bcrypt from 'bcrypt';
 import postgres from 'postgres';
+import {
+  LoginLockedError,
+  clearLoginFailures,
+  clientIp,
+  fetchLockedUntil,
+  recordLoginFailure,
+} from '@/app/lib/login-attempts';
+import { verifySecondFactor } from '@/app/lib/two-factor';
 
 
 const sql = postgres(process.env.POSTGRES_URL!, { ssl: 'require' });
@@ -18,28 +26,144 @@ async function getUser(email: string): Promise<User | undefined> {
     throw new Error('Failed to fetch user.');
   }
 }
+
+type Membership = {
+  organization_id: string;
+  role: Role;
+  password_changed_at: Date | null;
+};
+
+// The organization a user works in, and their role there: the one asked for,
+// if they belong to it, or else the first one they joined. Deactivated users
+// work nowhere. Also when they last changed their password, which sessions
+// from before it don't outlive.
+async function getMembership(
+  userId: string,
+  organizationId?: string,
+): Promise<Membership | undefined> {
+  try {
+    const [membership] = await sql<Membership[]>`
+      SELECT
+        organization_id,
+        role,
+        users.password_changed_at::timestamptz AS password_changed_at
+      FROM memberships
+      JOIN users ON users.id = memberships.user_id
+      WHERE user_id = ${userId} AND users.deactivated_at IS NULL
+        ${organizationId ? sql`AND organization_id::text = ${organizationId}` : sql``}
+      ORDER BY memberships.created_at ASC
+      LIMIT 1
+    `;
+    return membership;
+  } catch (error) {
+    console.error('Failed to fetch membership:', error);
+    throw new Error('Failed to fetch membership.');
+  }
+}
  
-export const { auth, signIn, signOut } = NextAuth({
+export const { auth, signIn, signOut, unstable_update } = NextAuth({
   ...authConfig,
+  callbacks: {
+    ...authConfig.callbacks,
+    // The second login step and the organization switcher go through session
+    // updates. Only a code that checks out here marks the session as
+    // verified, and only an organization the user belongs to can be switched to.
+    // Every other request checks the user against the database, so a role
+    // change applies straight away, and deactivating a user, removing them
+    // from the organization or changing their password ends their session.
+    async jwt(params) {
+      const { token, trigger, session, user } = params;
+      if (trigger === 'update') {
+        const code = session?.twoFactorCode;
+        if (token.twoFactorPending && token.sub && typeof code === 'string') {
+          token.twoFactorPending = !(await verifySecondFactor(token.sub, code));
+        }
+        const organizationId = session?.user?.organizationId;
+        if (!token.twoFactorPending && token.sub && typeof organizationId === 'string') {
+          // Roles belong to memberships, so the role changes with the organization
+          const membership = await getMembership(token.sub, organizationId);
+          if (membership) {
+            token.organizationId = membership.organization_id;
+            token.role = membership.role;
+          }
+        }
+        return token;
+      }
+      if (user || !token.sub || !token.organizationId) {
+        return authConfig.callbacks.jwt(params);
+      }
+      const membership = await getMembership(token.sub, token.organizationId);
+      if (!membership) return null;
+      // Tokens are reissued as they are used, so one from before the change
+      // was last seen then. Issue times are in whole seconds.
+      const passwordChangedAt = membership.password_changed_at?.getTime();
+      if (passwordChangedAt && (token.iat ?? 0) < Math.floor(passwordChangedAt / 1000)) {
+        return null;
+      }
+      token.role = membership.role;
+      return token;
+    },
+  },
   providers: [
     Credentials({
-      async authorize(credentials) {
+      async authorize(credentials, request) {
         const parsedCredentials = z
-          .object({ email: z.string().email(), password: z.string().min(6) })
+          .object({
+            email: z.string().trim().toLowerCase().email(), // Emails are stored in lower case
+            password: z.string().min(6),
+          })
           .safeParse(credentials);
  
         if (parsedCredentials.success) {
           const { email, password } = parsedCredentials.data;
+          const ip = clientIp(request.headers);
+
+          // Locked out attempts aren't checked or counted, so they can't extend the lockout
+          const lockedUntil = await fetchLockedUntil(email, ip);
+          if (lockedUntil) throw new LoginLockedError(lockedUntil);
+
           const user = await getUser(email);
-          if (!user) return null;
-          const passwordsMatch = await bcrypt.compare(password, user.password);
- 
-          if (passwordsMatch) return user;
+          const passwordsMatch =
+            !!user && (await bcrypt.compare(password, user.password));
+
+          // Deactivated users are turned away even with the right password,
+          // as are users who belong to no organization and so have nothing to see
+          const membership =
+            user && passwordsMatch && !user.deactivated_at
+              ? await getMembership(user.id)
+              : undefined;
+          if (user && membership) {
+            // With two-factor sign-in, failures are only forgiven once the code
+            // is in too, or password logins could reset the count between
+            // guesses at the code
+            if (!user.totp_enabled_at) await clearLoginFailures(email);
+            return {
+              ...user,
+              role: membership.role,
+              organizationId: membership.organization_id,
+              twoFactorEnabled: !!user.totp_enabled_at,
+            };
+          }
+          await recordLoginFailure(email, ip);
         }
-        
-        console.log('Invalid credentials');
+
         return null;
       },
     }),
   ],
-});
\ No newline at end of file
+});
+
+// Completes the second login step, returning whether the code was accepted
+export async function verifyTwoFactor(code: string) {
+  const session = await unstable_update({
+    twoFactorCode: code,
+  } as Partial<Session>);
+  return !!session && !session.user.twoFactorPending;
+}
+
+// Moves the session to another organization the user belongs to, returning
+// whether it did
+export async function switchActiveOrganization(organizationId: string) {
+  const session = await unstable_update({ user: { organizationId } });
+  return session?.user.organizationId === organizationId;
+}
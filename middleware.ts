@@ -1,7 +1,6 @@
-import NextAuth from 'next-auth';
-import { authConfig } from './auth.config';
- 
-export default NextAuth(authConfig).auth;
+// The full config, not just auth.config, so each request checks the user
+// against the database before pages are let through by role
+export { auth as default } from './auth';
  
 export const config = {
   // https://nextjs.org/docs/app/building-your-application/routing/middleware#matcher